@@ -0,0 +1,15 @@
+import { config } from 'dotenv';
+
+config();
+
+// Server settings - every value can be overridden from the environment (or .env)
+export const SERVER_CONFIG = {
+  PORT: Number(process.env.PORT ?? 3001),
+  // 'gateway' calls hosted models through the AI SDK, 'mock' answers locally (offline)
+  AI_PROVIDER: process.env.AI_PROVIDER ?? 'gateway',
+  // Models used by the gateway provider
+  ENEMY_MODEL: process.env.AI_ENEMY_MODEL ?? 'openai/gpt-4o',
+  TEXT_MODEL: process.env.AI_TEXT_MODEL ?? 'google/gemini-2.5-flash',
+  // ms the mock provider takes to answer, to feel like a real model
+  MOCK_LATENCY: Number(process.env.AI_MOCK_LATENCY ?? 250),
+};
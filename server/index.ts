@@ -1,68 +1,30 @@
 import express from 'express';
 import cors from 'cors';
-import { config } from 'dotenv';
-import { generateText, tool } from 'ai';
 import { z } from 'zod';
-
-config();
+import {
+  CollisionObject,
+  EnemyPlanRequestSchema,
+  EnemyPlanResponse,
+  EnemyPlanSchema,
+  PLAN_LIMITS,
+  WAIT_PLAN,
+} from '../src/ai/schemas.ts';
+import { SERVER_CONFIG } from './config.ts';
+import { createProvider } from './providers.ts';
 
 const app = express();
+const provider = createProvider();
 
 app.use(cors());
 app.use(express.json());
 
-// Define the enemy AI tools
-const enemyTools = {
-  punch: tool({
-    description: 'Throw a punch attack at the player. Best used when close to the player.',
-    inputSchema: z.object({}),
-    execute: async () => ({ action: 'punch', success: true }),
-  }),
-
-  sidekick: tool({
-    description: 'Perform a sidekick attack. More powerful than punch, good range.',
-    inputSchema: z.object({}),
-    execute: async () => ({ action: 'sidekick', success: true }),
-  }),
-
-  jump: tool({
-    description: 'Jump into the air. Use to dodge attacks or reach elevated positions.',
-    inputSchema: z.object({}),
-    execute: async () => ({ action: 'jump', success: true }),
-  }),
-
-  moveLeft: tool({
-    description: 'Move left by a specific number of pixels. Use the distance to player to determine how far to move.',
-    inputSchema: z.object({
-      pixels: z.number().describe('Number of pixels to move left (e.g., 50, 100, 200)'),
-    }),
-    execute: async ({ pixels }) => ({ action: 'moveLeft', pixels, success: true }),
-  }),
-
-  moveRight: tool({
-    description: 'Move right by a specific number of pixels. Use the distance to player to determine how far to move.',
-    inputSchema: z.object({
-      pixels: z.number().describe('Number of pixels to move right (e.g., 50, 100, 200)'),
-    }),
-    execute: async ({ pixels }) => ({ action: 'moveRight', pixels, success: true }),
-  }),
-
-  stopMoving: tool({
-    description: 'Stop moving and stand still.',
-    inputSchema: z.object({}),
-    execute: async () => ({ action: 'stopMoving', success: true }),
-  }),
-
-  wait: tool({
-    description: 'Do nothing this turn. Use to observe the player or when no action is needed.',
-    inputSchema: z.object({}),
-    execute: async () => ({ action: 'wait', success: true }),
-  }),
-};
+// Rejected data since the server started - game states from the client,
+// plans from the provider
+const invalidCounts = { gameState: 0, plan: 0 };
 
 // Format collision objects for the prompt
-function formatCollisionObjects(objects: any[]): string {
-  if (!objects || objects.length === 0) return 'None';
+function formatCollisionObjects(objects: CollisionObject[]): string {
+  if (objects.length === 0) return 'None';
   return objects
     .map(obj => `  - ${obj.type}: x=${obj.x}, y=${obj.y}, width=${obj.width}, height=${obj.height}`)
     .join('\n');
@@ -71,7 +33,16 @@ function formatCollisionObjects(objects: any[]): string {
 // Endpoint for AI to decide enemy action
 app.post('/api/enemy-action', async (req, res) => {
   try {
-    const { gameState } = req.body;
+    const request = EnemyPlanRequestSchema.safeParse(req.body);
+    if (!request.success) {
+      invalidCounts.gameState++;
+      const error = `Invalid game state: ${z.prettifyError(request.error)}`;
+      console.log(`[AI Server] ${error} (${invalidCounts.gameState} so far)`);
+      const body: EnemyPlanResponse = { success: false, error, plan: WAIT_PLAN };
+      res.status(400).json(body);
+      return;
+    }
+    const { gameState } = request.data;
 
     // Build a prompt with the current game state
     const systemPrompt = `You are controlling an enemy fighter in a 2D side-scrolling fighting game.
@@ -90,10 +61,12 @@ Enemy (you):
 - Facing: ${gameState.enemyFacingRight ? 'right' : 'left'}
 - Can attack: ${gameState.canAttack}
 - Can jump: ${gameState.canJump}
+- Attacks you have: ${gameState.enemyAttacks.join(', ')}
 
 Player (target):
 - Position: (${gameState.playerX}, ${gameState.playerY})
 - Health: ${gameState.playerHealth}/${gameState.playerMaxHealth}
+- Guarding: ${gameState.playerGuarding}
 - Relative position: ${gameState.playerX > gameState.enemyX ? 'right' : 'left'} of you
 
 Spatial:
@@ -103,48 +76,54 @@ Spatial:
 Collision Objects (platforms, floors, obstacles):
 ${formatCollisionObjects(gameState.collisionObjects)}
 
+AVAILABLE ACTIONS:
+- punch: Quick punch. Best used when close to the player.
+- sidekick: More powerful than punch, good range.
+- throw: Grab and throw the player. Very short range (distance < 90) and cannot be blocked - the answer to a guarding player. The player can break free if they react in time.
+- blast: Fire an energy blast that flies straight ahead across the stage. Hits from any distance, but the player can block or jump over it. Best from far away (distance > 250).
+- Only use the attacks you have - an attack you don't have is skipped.
+- jump: Jump into the air. Use to dodge attacks or reach elevated positions.
+- moveLeft / moveRight: Move by params.pixels (use the distance to the player to decide how far).
+- stopMoving: Stop moving and stand still.
+- wait: Do nothing for its delay. Use to observe the player.
+
+PLANNING:
+- Plan up to ${PLAN_LIMITS.MAX_STEPS} actions, e.g. "moveRight 120, then sidekick, then jump".
+- Each action starts once the previous one has finished; "delay" adds a pause in ms before it (max ${PLAN_LIMITS.MAX_DELAY}).
+- The plan is abandoned when you get hit (set interrupt.onHit to false for moves that should push through).
+- Set interrupt.maxDistance to abandon the plan when the player gets out of range of your attacks.
+- Keep plans short - you'll be asked again as soon as the plan ends or breaks off.
+
 STRATEGY GUIDELINES:
 - If close (distance < 150), attack with punch or sidekick
-- If far, move toward the player
+- If very close (distance < 90) and the player is guarding, throw them
+- If far and you have blast, fire it and keep your distance; otherwise move toward the player
 - If player is on a platform above you, jump to reach them
 - Use jump + sidekick for aerial attacks
 - Face the player before attacking
 
-Choose the single best action for this moment.`;
-
-    const result = await generateText({
-      model: 'openai/gpt-4o',
-      system: systemPrompt,
-      prompt: 'What action should the enemy take?',
-      tools: enemyTools,
-      toolChoice: 'required', // Force the model to use a tool
-    });
-
-    // Extract the tool call
-    const toolCall = result.toolCalls?.[0];
-    
-    if (toolCall) {
-      // Cast to access input property (contains the tool parameters)
-      const toolInput = (toolCall as any).input ?? {};
-      
-      console.log(`[AI Server] Tool called: ${toolCall.toolName}`, toolInput);
-      
-      res.json({ 
-        action: toolCall.toolName,
-        params: toolInput, // Include any parameters (like pixels for moveLeft/moveRight)
-        success: true 
-      });
+Plan the best sequence of actions for this moment.`;
+
+    const rawPlan = await provider.planEnemyMoves(gameState, systemPrompt);
+
+    // Validate the plan like the client does - unknown actions or bad params never leave the server
+    const parsed = EnemyPlanSchema.safeParse(rawPlan);
+
+    let body: EnemyPlanResponse;
+    if (parsed.success) {
+      console.log(`[AI Server] Plan: ${parsed.data.steps.map((step) => step.action).join(' -> ')}`);
+      body = { success: true, plan: parsed.data };
     } else {
-      console.log('[AI Server] No tool called, defaulting to wait');
-      res.json({ 
-        action: 'wait', 
-        params: {},
-        success: true 
-      });
+      invalidCounts.plan++;
+      const error = `Invalid plan from ${provider.name}: ${z.prettifyError(parsed.error)}`;
+      console.log(`[AI Server] ${error} (${invalidCounts.plan} so far)`);
+      body = { success: false, error, plan: WAIT_PLAN };
     }
+    res.json(body);
   } catch (error) {
     console.error('AI Error:', error);
-    res.status(500).json({ error: 'Failed to get AI decision', action: 'wait' });
+    const body: EnemyPlanResponse = { success: false, error: 'Failed to get AI decision', plan: WAIT_PLAN };
+    res.status(500).json(body);
   }
 });
 
@@ -152,17 +131,15 @@ Choose the single best action for this moment.`;
 app.post('/generate-response', async (req, res) => {
   try {
     const { prompt } = req.body;
-    const response = await generateText({
-      model: 'google/gemini-2.5-flash',
-      prompt: prompt,
-    });
-    res.json({ text: response.text });
+    const text = await provider.generateText(prompt);
+    res.json({ text });
   } catch (error) {
     console.error('AI Error:', error);
     res.status(500).json({ error: 'Failed to generate text' });
   }
 });
 
-app.listen(3001, () => {
-  console.log('Server is running on http://localhost:3001');
+app.listen(SERVER_CONFIG.PORT, () => {
+  console.log(`Server is running on http://localhost:${SERVER_CONFIG.PORT}`);
+  console.log(`[AI Server] Provider: ${provider.name}`);
 });
\ No newline at end of file
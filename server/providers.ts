@@ -0,0 +1,126 @@
+import { generateText, tool } from 'ai';
+import { EnemyPlanSchema, PLAN_LIMITS, GameState, EnemyPlan } from '../src/ai/schemas.ts';
+import { SERVER_CONFIG } from './config.ts';
+
+// Where the server's AI answers come from - hosted models or the local mock
+export interface AIProvider {
+  name: string;
+  // Plan the enemy's next moves - returns the raw plan, the caller validates it
+  planEnemyMoves(gameState: GameState, systemPrompt: string): Promise<unknown>;
+  // General purpose text generation
+  generateText(prompt: string): Promise<string>;
+}
+
+// The enemy AI answers with a single tool call carrying its whole plan
+const enemyTools = {
+  plan: tool({
+    description: `Plan the enemy's next moves: 1-${PLAN_LIMITS.MAX_STEPS} actions carried out in order, each starting after the previous one has finished (plus its delay).`,
+    inputSchema: EnemyPlanSchema,
+    execute: async (plan) => ({ plan, success: true }),
+  }),
+};
+
+// Hosted models through the AI SDK gateway (needs network access and an API key)
+class GatewayProvider implements AIProvider {
+  name = `gateway (${SERVER_CONFIG.ENEMY_MODEL}, ${SERVER_CONFIG.TEXT_MODEL})`;
+
+  async planEnemyMoves(_gameState: GameState, systemPrompt: string): Promise<unknown> {
+    const result = await generateText({
+      model: SERVER_CONFIG.ENEMY_MODEL,
+      system: systemPrompt,
+      prompt: 'What should the enemy do next?',
+      tools: enemyTools,
+      toolChoice: 'required', // Force the model to use a tool
+    });
+
+    // The plan tool's input is the plan (the caller validates it)
+    return result.toolCalls.find((call) => call.toolName === 'plan')?.input;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const response = await generateText({
+      model: SERVER_CONFIG.TEXT_MODEL,
+      prompt,
+    });
+    return response.text;
+  }
+}
+
+// Distances the mock's rules work with (pixels)
+const MOCK_RULES = {
+  THROW_DISTANCE: 90,
+  ATTACK_DISTANCE: 150,
+  STOP_SHORT: 100, // Walk in until this far from the player
+  PLATFORM_HEIGHT: 100, // Player this much higher is up on a platform
+  JUMP_DISTANCE: 300,
+  BLAST_DISTANCE: 250, // Fire blasts from at least this far away
+};
+
+// Offline stand-in: follows the prompt's strategy guidelines with fixed
+// rules, so the same game state always gets the same plan
+class MockProvider implements AIProvider {
+  name = `mock (${SERVER_CONFIG.MOCK_LATENCY}ms latency)`;
+
+  async planEnemyMoves(gameState: GameState, _systemPrompt: string): Promise<unknown> {
+    await this.simulateLatency();
+
+    const { distance, enemyAttacks } = gameState;
+    const toward = gameState.playerX > gameState.enemyX ? 'moveRight' : 'moveLeft';
+    const playerAbove = gameState.enemyY - gameState.playerY > MOCK_RULES.PLATFORM_HEIGHT;
+    const heavyAttack = enemyAttacks.includes('sidekick') ? 'sidekick' : 'punch';
+
+    let plan: EnemyPlan;
+    if (!gameState.canAttack) {
+      // Mid-attack or staggered - let it play out
+      plan = { steps: [{ action: 'wait', delay: 200 }] };
+    } else if (playerAbove && gameState.canJump && distance < MOCK_RULES.JUMP_DISTANCE) {
+      plan = {
+        steps: [
+          { action: toward, params: { pixels: Math.max(20, distance / 2) } },
+          { action: 'jump' },
+          { action: heavyAttack },
+        ],
+        interrupt: { maxDistance: MOCK_RULES.JUMP_DISTANCE },
+      };
+    } else if (distance < MOCK_RULES.THROW_DISTANCE && gameState.playerGuarding) {
+      plan = { steps: [{ action: 'throw' }] };
+    } else if (distance < MOCK_RULES.ATTACK_DISTANCE) {
+      plan = {
+        steps: [{ action: 'punch' }, { action: heavyAttack, delay: 150 }],
+        interrupt: { maxDistance: MOCK_RULES.ATTACK_DISTANCE + 50 },
+      };
+    } else if (distance >= MOCK_RULES.BLAST_DISTANCE && enemyAttacks.includes('blast')) {
+      // Zone: stay put and shoot
+      plan = {
+        steps: [{ action: 'stopMoving' }, { action: 'blast' }, { action: 'wait', delay: 400 }],
+      };
+    } else {
+      const pixels = Math.min(distance - MOCK_RULES.STOP_SHORT, PLAN_LIMITS.MAX_PIXELS);
+      plan = { steps: [{ action: toward, params: { pixels } }, { action: 'punch' }] };
+    }
+
+    return plan;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    await this.simulateLatency();
+    return `[mock] ${prompt}`;
+  }
+
+  private simulateLatency(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, SERVER_CONFIG.MOCK_LATENCY));
+  }
+}
+
+// Provider picked by SERVER_CONFIG.AI_PROVIDER
+export function createProvider(): AIProvider {
+  switch (SERVER_CONFIG.AI_PROVIDER) {
+    case 'mock':
+      return new MockProvider();
+    case 'gateway':
+      return new GatewayProvider();
+    default:
+      console.warn(`[AI Server] Unknown AI_PROVIDER "${SERVER_CONFIG.AI_PROVIDER}", using gateway`);
+      return new GatewayProvider();
+  }
+}
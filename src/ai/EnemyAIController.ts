@@ -7,6 +7,9 @@
 
 import { Enemy } from '../entities/Enemy';
 import { Player } from '../entities/Player';
+import { FighterState } from '../entities/Fighter';
+import { AttackInstance } from '../combat/AttackInstance';
+import { EnemyController } from './EnemyController';
 
 /** AI States for the finite state machine */
 export enum AIState {
@@ -14,8 +17,13 @@ export enum AIState {
   CHASE,     // Moving toward the player
   ATTACK,    // Close enough to attack
   RETREAT,   // Backing away (when low health or after attacking)
+  BLOCK,     // Guarding against an incoming player attack
+  ZONE,      // Keeping the player at range with projectiles
 }
 
+/** How the enemy closes the gap: rush in to melee, or zone with projectiles */
+type Approach = 'rush' | 'zone';
+
 /** Configuration for AI behavior */
 const AI_CONFIG = {
   // Distance thresholds
@@ -36,6 +44,27 @@ const AI_CONFIG = {
   RETREAT_CHANCE: 0.25,             // 25% chance to retreat after attacking
   JUMP_WHILE_CHASING_CHANCE: 0.02,  // 2% chance per frame to jump while chasing
   
+  // Blocking
+  BLOCK_DISTANCE: 200,              // React to player attacks within this distance
+  BLOCK_CHANCE: 0.5,                // 50% chance to block each player attack
+  BLOCK_MIN_DURATION: 300,          // ms to hold guard at least
+  
+  // Throws
+  THROW_DISTANCE: 90,               // Throw only when this close
+  THROW_CHANCE: 0.15,               // 15% chance to throw instead of striking up close
+  THROW_GUARDING_CHANCE: 0.7,       // 70% chance to throw a guarding player
+  THROW_TECH_CHANCE: 0.35,          // 35% chance to break out of the player's throws
+  
+  // Zoning (enemies with a ranged move)
+  ZONE_CHANCE: 0.4,                 // 40% chance to zone instead of rushing in
+  ZONE_LOW_HEALTH_BONUS: 0.3,       // Zone more when low on health
+  ZONE_PLAYER_LOW_HEALTH_PENALTY: 0.25, // Rush more to finish a weakened player
+  APPROACH_REROLL_INTERVAL: 2500,   // ms between zone/rush decisions
+  ZONE_DISTANCE: 450,               // Preferred spacing while zoning
+  ZONE_DISTANCE_TOLERANCE: 60,      // +/- spacing that counts as in place
+  ZONE_MIN_DISTANCE: 250,           // Player closed in - switch to rushing
+  BLAST_COOLDOWN: 1400,             // ms between projectiles
+  
   // Health-based behavior
   LOW_HEALTH_THRESHOLD: 0.3,        // 30% health is considered low
   LOW_HEALTH_RETREAT_CHANCE: 0.4,   // 40% chance to retreat when low health
@@ -49,8 +78,10 @@ const AI_CONFIG = {
  * - CHASE: Pursue the player
  * - ATTACK: Execute attacks when in range
  * - RETREAT: Back away strategically
+ * - BLOCK: Guard when the player attacks
+ * - ZONE: Keep the player at range with projectiles (ranged enemies)
  */
-export class EnemyAIController {
+export class EnemyAIController implements EnemyController {
   private enemy: Enemy;
   private player: Player;
   
@@ -66,6 +97,16 @@ export class EnemyAIController {
   private attackPauseTimer: number = 0;
   private isWaitingToAttack: boolean = false;
   
+  // Last player attack the block reaction was rolled for
+  private lastSeenPlayerAttack: AttackInstance | null = null;
+  
+  // Whether the tech roll was made for the current grab
+  private throwTechRolled: boolean = false;
+  
+  // Zone or rush, re-decided every APPROACH_REROLL_INTERVAL
+  private approach: Approach = 'rush';
+  private approachTimer: number = 0;
+  
   constructor(enemy: Enemy, player: Player) {
     this.enemy = enemy;
     this.player = player;
@@ -97,11 +138,27 @@ export class EnemyAIController {
       this.attackPauseTimer -= delta;
     }
     
+    this.approachTimer -= delta;
+    if (this.approachTimer <= 0) {
+      this.approach = this.chooseApproach();
+      this.approachTimer = AI_CONFIG.APPROACH_REROLL_INTERVAL;
+    }
+    
     // Calculate distance to player
     const playerX = this.player.getSprite().x;
     const enemyX = this.enemy.getX();
     const distance = Math.abs(playerX - enemyX);
     
+    // Grabbed: try to break out (rolled once per throw)
+    if (this.enemy.getState() === FighterState.GRABBED) {
+      if (!this.throwTechRolled && Math.random() < AI_CONFIG.THROW_TECH_CHANCE) {
+        this.enemy.requestThrowTech();
+      }
+      this.throwTechRolled = true;
+    } else {
+      this.throwTechRolled = false;
+    }
+    
     // Check state transitions
     this.checkStateTransitions(distance);
     
@@ -116,6 +173,20 @@ export class EnemyAIController {
     // Add randomized variance to distances for unpredictability
     const variance = (Math.random() - 0.5) * 2 * AI_CONFIG.DISTANCE_VARIANCE;
     
+    // React to a new player attack by blocking (rolled once per attack)
+    const playerAttacking = this.player.getState() === FighterState.ATTACKING;
+    const playerAttack = this.player.getCurrentAttack();
+    if (playerAttacking && playerAttack !== this.lastSeenPlayerAttack) {
+      this.lastSeenPlayerAttack = playerAttack;
+      if (this.currentState !== AIState.BLOCK &&
+          distance < AI_CONFIG.BLOCK_DISTANCE &&
+          this.enemy.canAttack() &&
+          Math.random() < AI_CONFIG.BLOCK_CHANCE) {
+        this.transitionTo(AIState.BLOCK);
+        return;
+      }
+    }
+    
     switch (this.currentState) {
       case AIState.IDLE:
         // Transition to CHASE if player is within detection range
@@ -125,8 +196,12 @@ export class EnemyAIController {
         break;
         
       case AIState.CHASE:
+        // Hold back and zone instead of closing in
+        if (this.approach === 'zone' && distance > AI_CONFIG.ZONE_MIN_DISTANCE) {
+          this.transitionTo(AIState.ZONE);
+        }
         // Transition to ATTACK if close enough
-        if (distance < AI_CONFIG.ATTACK_DISTANCE + variance) {
+        else if (distance < AI_CONFIG.ATTACK_DISTANCE + variance) {
           this.transitionTo(AIState.ATTACK);
         }
         // Transition back to IDLE if player is too far
@@ -148,13 +223,32 @@ export class EnemyAIController {
           this.transitionTo(AIState.CHASE);
         }
         break;
+        
+      case AIState.ZONE:
+        // The player got through - fight up close
+        if (distance < AI_CONFIG.ZONE_MIN_DISTANCE) {
+          this.approach = 'rush';
+          this.approachTimer = AI_CONFIG.APPROACH_REROLL_INTERVAL;
+          this.transitionTo(AIState.CHASE);
+        } else if (this.approach === 'rush') {
+          this.transitionTo(AIState.CHASE);
+        }
+        break;
+        
+      case AIState.BLOCK:
+        // Drop guard once the player stops attacking (or the guard broke)
+        if ((!playerAttacking && this.stateTimer >= AI_CONFIG.BLOCK_MIN_DURATION) ||
+            this.enemy.getGuard() <= 0) {
+          this.transitionTo(AIState.CHASE);
+        }
+        break;
     }
   }
   
   /**
    * Execute behavior for the current state
    */
-  private executeStateBehavior(_distance: number, delta: number): void {
+  private executeStateBehavior(distance: number, delta: number): void {
     switch (this.currentState) {
       case AIState.IDLE:
         this.executeIdleBehavior();
@@ -171,6 +265,14 @@ export class EnemyAIController {
       case AIState.RETREAT:
         this.executeRetreatBehavior();
         break;
+        
+      case AIState.BLOCK:
+        this.executeBlockBehavior();
+        break;
+        
+      case AIState.ZONE:
+        this.executeZoneBehavior(distance);
+        break;
     }
   }
   
@@ -233,13 +335,23 @@ export class EnemyAIController {
   }
   
   /**
-   * Perform an attack (randomly choose punch or sidekick)
+   * Perform an attack (throw a guarding player up close, otherwise
+   * randomly choose punch or sidekick)
    */
   private performAttack(): void {
-    // Randomly choose attack type
-    const attackSuccess = Math.random() < 0.5 
-      ? this.enemy.punch() 
-      : this.enemy.sidekick();
+    const distance = Math.abs(this.player.getSprite().x - this.enemy.getX());
+    const playerGuarding = this.player.getState() === FighterState.GUARDING;
+    const throwChance = playerGuarding ? AI_CONFIG.THROW_GUARDING_CHANCE : AI_CONFIG.THROW_CHANCE;
+    
+    let attackSuccess: boolean;
+    if (distance < AI_CONFIG.THROW_DISTANCE && Math.random() < throwChance) {
+      attackSuccess = this.enemy.throw();
+    } else {
+      // Randomly choose attack type (punch only if there's no sidekick)
+      attackSuccess = this.enemy.hasAttack('sidekick') && Math.random() < 0.5
+        ? this.enemy.sidekick()
+        : this.enemy.punch();
+    }
     
     if (attackSuccess) {
       this.lastAttackTime = 0;
@@ -286,12 +398,72 @@ export class EnemyAIController {
     this.facePlayer();
   }
   
+  /**
+   * Decide between zoning and rushing in
+   * Only enemies with a ranged move zone; more likely when hurt, less when
+   * the player is close to losing
+   */
+  private chooseApproach(): Approach {
+    if (!this.enemy.hasRangedMove()) {
+      return 'rush';
+    }
+    
+    let zoneChance = AI_CONFIG.ZONE_CHANCE;
+    if (this.enemy.getCurrentHealth() / this.enemy.getMaxHealth() < AI_CONFIG.LOW_HEALTH_THRESHOLD) {
+      zoneChance += AI_CONFIG.ZONE_LOW_HEALTH_BONUS;
+    }
+    if (this.player.getCurrentHealth() / this.player.getMaxHealth() < AI_CONFIG.LOW_HEALTH_THRESHOLD) {
+      zoneChance -= AI_CONFIG.ZONE_PLAYER_LOW_HEALTH_PENALTY;
+    }
+    return Math.random() < zoneChance ? 'zone' : 'rush';
+  }
+  
+  /**
+   * ZONE state behavior - hold the preferred spacing and fire projectiles
+   */
+  private executeZoneBehavior(distance: number): void {
+    const playerX = this.player.getSprite().x;
+    const enemyX = this.enemy.getX();
+    const towardPlayer = playerX < enemyX ? -1 : 1;
+    
+    // Hold the preferred spacing
+    let direction = 0;
+    if (distance < AI_CONFIG.ZONE_DISTANCE - AI_CONFIG.ZONE_DISTANCE_TOLERANCE) {
+      direction = -towardPlayer;
+    } else if (distance > AI_CONFIG.ZONE_DISTANCE + AI_CONFIG.ZONE_DISTANCE_TOLERANCE) {
+      direction = towardPlayer;
+    }
+    
+    if (direction < 0) {
+      this.enemy.startMovingLeft();
+    } else if (direction > 0) {
+      this.enemy.startMovingRight();
+    } else {
+      this.enemy.stopMoving();
+    }
+    this.facePlayer();
+    
+    if (this.lastAttackTime >= AI_CONFIG.BLAST_COOLDOWN && this.enemy.canAttack() && this.enemy.blast()) {
+      this.lastAttackTime = 0;
+    }
+  }
+  
+  /**
+   * BLOCK state behavior - hold guard facing the player
+   */
+  private executeBlockBehavior(): void {
+    this.enemy.stopMoving();
+    this.facePlayer();
+    this.enemy.startGuarding();
+  }
+  
   /**
    * Transition to a new state
    */
   private transitionTo(newState: AIState): void {
     // Exit current state
     this.enemy.stopMoving();
+    this.enemy.stopGuarding();
     this.isWaitingToAttack = false;
     
     // Enter new state
@@ -326,6 +498,8 @@ export class EnemyAIController {
       case AIState.CHASE: return 'CHASE';
       case AIState.ATTACK: return 'ATTACK';
       case AIState.RETREAT: return 'RETREAT';
+      case AIState.BLOCK: return 'BLOCK';
+      case AIState.ZONE: return 'ZONE';
       default: return 'UNKNOWN';
     }
   }
@@ -343,6 +517,18 @@ export class EnemyAIController {
   public setAttackCooldown(cooldownMs: number): void {
     this.attackCooldown = cooldownMs;
   }
+  
+  /**
+   * Back to IDLE for a new round
+   */
+  public reset(): void {
+    this.forceState(AIState.IDLE);
+  }
+  
+  /**
+   * Nothing to clean up - the FSM only runs inside update()
+   */
+  public destroy(): void {}
 }
 
 export default EnemyAIController;
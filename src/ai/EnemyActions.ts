@@ -0,0 +1,48 @@
+/**
+ * Enemy Actions
+ * ==============
+ * Carries out an EnemyAction (one step of an AI plan) on an enemy.
+ * Shared by the plan runner and the replay controller.
+ */
+
+import { Enemy } from '../entities/Enemy';
+import { EnemyAction } from './schemas';
+
+/**
+ * Perform an action on the enemy
+ * @returns false if the enemy can't perform it right now (attacks, jumps)
+ */
+export function performEnemyAction(enemy: Enemy, { action, params }: EnemyAction): boolean {
+  switch (action) {
+    case 'punch':
+      return enemy.punch();
+    case 'sidekick':
+      return enemy.sidekick();
+    case 'throw':
+      return enemy.throw();
+    case 'blast':
+      return enemy.blast();
+    case 'jump':
+      return enemy.jump();
+    case 'moveLeft':
+      if (params?.pixels) {
+        enemy.moveLeftBy(params.pixels);
+      } else {
+        enemy.startMovingLeft();
+      }
+      return true;
+    case 'moveRight':
+      if (params?.pixels) {
+        enemy.moveRightBy(params.pixels);
+      } else {
+        enemy.startMovingRight();
+      }
+      return true;
+    case 'stopMoving':
+      enemy.stopMoving();
+      return true;
+    case 'wait':
+      // Do nothing
+      return true;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Enemy Controller
+ * =================
+ * The "brain" behind an enemy. GameScene ticks one controller per enemy
+ * and never cares which kind it is - the FSM, an LLM, a human on the enemy
+ * test keys or a replayed script all plug in behind this interface.
+ * Which one drives each enemy comes from the match config.
+ */
+
+import Phaser from 'phaser';
+import { Enemy } from '../entities/Enemy';
+import { Player } from '../entities/Player';
+import { InputManager } from '../systems/InputManager';
+import { EnemyKeyboardControls, FighterControls, ScriptedControls } from '../systems/FighterControls';
+import { EnemyAIController } from './EnemyAIController';
+import { LLMEnemyController } from './LLMEnemyController';
+import { KeyboardEnemyController } from './KeyboardEnemyController';
+import { ReplayEnemyController, ReplayStep } from './ReplayEnemyController';
+
+/** Available enemy drivers */
+export type EnemyControllerType = 'fsm' | 'llm' | 'keyboard' | 'replay';
+
+/** Common interface of every enemy driver */
+export interface EnemyController {
+  /**
+   * Called every frame while the enemy is alive
+   * @param delta - Time elapsed since last frame in ms
+   */
+  update(delta: number): void;
+
+  /** Drop any plan in progress (new round) */
+  reset(): void;
+
+  /** Stop any pending work (scene shutdown) */
+  destroy(): void;
+}
+
+/** What a controller may need from the scene */
+export interface EnemyControllerContext {
+  scene: Phaser.Scene;
+  player: Player;
+  inputManager: InputManager;
+  /** Static platforms and floor, reported to the LLM */
+  ground: Phaser.Physics.Arcade.StaticGroup;
+  /** Script for replay-driven enemies */
+  replay?: ReplayStep[];
+}
+
+/**
+ * Control source for an enemy's sprite.
+ * Only keyboard-driven enemies read the enemy test keys - the others get an
+ * idle scripted source so stray key presses can't fight their controller.
+ */
+export function createEnemyControls(type: EnemyControllerType, inputManager: InputManager): FighterControls {
+  return type === 'keyboard' ? new EnemyKeyboardControls(inputManager) : new ScriptedControls();
+}
+
+/**
+ * Build the controller that drives an enemy
+ * @param type - Driver picked in the match config
+ */
+export function createEnemyController(
+  type: EnemyControllerType,
+  enemy: Enemy,
+  context: EnemyControllerContext
+): EnemyController {
+  switch (type) {
+    case 'llm':
+      return new LLMEnemyController(context.scene, enemy, context.player, context.ground);
+    case 'keyboard':
+      return new KeyboardEnemyController(enemy);
+    case 'replay':
+      return new ReplayEnemyController(enemy, context.replay);
+    case 'fsm':
+    default:
+      return new EnemyAIController(enemy, context.player);
+  }
+}
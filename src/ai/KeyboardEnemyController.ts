@@ -0,0 +1,29 @@
+/**
+ * Keyboard Enemy Controller
+ * ==========================
+ * A human drives the enemy on the enemy test keys (G/J/Y/H/,/K/N/M). The
+ * keys reach the enemy through its control source (EnemyKeyboardControls),
+ * so all this controller does is keep AI requests out of the way.
+ */
+
+import { Enemy } from '../entities/Enemy';
+import { EnemyController } from './EnemyController';
+
+export class KeyboardEnemyController implements EnemyController {
+  private enemy: Enemy;
+
+  constructor(enemy: Enemy) {
+    this.enemy = enemy;
+  }
+
+  /** Nothing to decide - the keys are read by the enemy itself */
+  update(_delta: number): void {}
+
+  /** Clear leftover AI movement and guard */
+  reset(): void {
+    this.enemy.stopMoving();
+    this.enemy.stopGuarding();
+  }
+
+  destroy(): void {}
+}
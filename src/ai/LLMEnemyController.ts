@@ -0,0 +1,284 @@
+/**
+ * LLM Enemy Controller
+ * =====================
+ * Drives an enemy with plans from the AI server (getEnemyAIPlan) without
+ * ever waiting on it. Requests go out in the background from this enemy's
+ * own queue (so several enemies think in parallel) once the current plan
+ * has ended or broken off - an answer that arrives while a plan is still
+ * running is dropped, so multi-step plans get to finish.
+ *
+ * Each request is stamped with the time its game state was captured. An
+ * answer is dropped if a newer snapshot has already been answered or if the
+ * state it was based on is too old to act on. When the server takes longer
+ * than the latency budget, the FSM takes over until answers come back in
+ * time - or while the server can't be reached or keeps sending answers
+ * that fail validation. Failed requests back off exponentially until an
+ * answer gets through.
+ *
+ * A plan that gets interrupted (the enemy was hit, the player got out of
+ * range) also outdates every request sent before it - those are dropped
+ * and a fresh request goes out straight away.
+ */
+
+import Phaser from 'phaser';
+import { Enemy } from '../entities/Enemy';
+import { Player } from '../entities/Player';
+import { FighterState } from '../entities/Fighter';
+import { GAME_WIDTH } from '../config/GameConfig';
+import { getEnemyAIPlan, AIResponseError } from './ai-access';
+import { GameState, CollisionObject, EnemyAttackSchema, EnemyPlan } from './schemas';
+import { PlanRunner } from './PlanRunner';
+import { EnemyController } from './EnemyController';
+import { EnemyAIController } from './EnemyAIController';
+
+/** Configuration for LLM decisions */
+const LLM_CONFIG = {
+  REQUEST_INTERVAL: 100, // ms between requests from the same enemy
+  MAX_BACKOFF: 5000, // ms between requests at most, after failures in a row (doubles per failure)
+  MAX_IN_FLIGHT: 2, // Requests one enemy may have waiting at once
+  MAX_STATE_AGE: 1500, // ms - answers based on older game states are dropped
+  LATENCY_BUDGET: 1000, // ms - FSM takes over while the server is slower than this
+  REQUEST_TIMEOUT: 5000, // ms before a request is aborted to free its queue slot
+};
+
+/** A request waiting for its answer */
+interface PendingDecision {
+  /** Scene time the game state was captured (and the request sent) */
+  stateTime: number;
+  abort: AbortController;
+}
+
+export class LLMEnemyController implements EnemyController {
+  private scene: Phaser.Scene;
+  private enemy: Enemy;
+  private player: Player;
+  private ground: Phaser.Physics.Arcade.StaticGroup;
+
+  // This enemy's request queue (oldest first)
+  private pending: PendingDecision[] = [];
+  private lastRequestTime: number = -Infinity;
+  private failureStreak: number = 0; // Failed requests since the last answer got through
+
+  // State time of the newest answer carried out (or of the last
+  // interrupt) - answers based on older states are stale
+  private lastAppliedStateTime: number = -Infinity;
+
+  // Carries out the current plan
+  private planRunner: PlanRunner;
+
+  // FSM that drives the enemy while the server is too slow
+  private fallback: EnemyAIController;
+  private usingFallback: boolean = false;
+
+  /**
+   * @param ground - Static platforms and floor reported in the game state
+   */
+  constructor(scene: Phaser.Scene, enemy: Enemy, player: Player, ground: Phaser.Physics.Arcade.StaticGroup) {
+    this.scene = scene;
+    this.enemy = enemy;
+    this.player = player;
+    this.ground = ground;
+    this.fallback = new EnemyAIController(enemy, player);
+    this.planRunner = new PlanRunner(enemy, player);
+  }
+
+  /**
+   * Keep the queue moving - never blocks on the server
+   * @param delta - Time elapsed since last frame in ms
+   */
+  update(delta: number): void {
+    const now = this.scene.time.now;
+
+    // Free slots held by requests the server never answered
+    this.pending
+      .filter((request) => now - request.stateTime > LLM_CONFIG.REQUEST_TIMEOUT)
+      .forEach((request) => this.cancel(request));
+
+    // Over the latency budget: the FSM plays until the server catches up
+    const oldest = this.pending[0];
+    if (oldest && now - oldest.stateTime > LLM_CONFIG.LATENCY_BUDGET && !this.usingFallback) {
+      console.log('[AI] Server over latency budget, FSM taking over');
+      this.usingFallback = true;
+      this.planRunner.cancel();
+      this.fallback.reset();
+    }
+
+    if (this.usingFallback) {
+      this.fallback.update(delta);
+    } else {
+      const interrupt = this.planRunner.update(delta);
+      if (interrupt) {
+        // Everything asked before this moment was planned for another situation
+        console.log(`[AI] Plan interrupted (${interrupt}), replanning`);
+        this.lastAppliedStateTime = now;
+        [...this.pending].forEach((request) => this.cancel(request));
+        this.lastRequestTime = -Infinity;
+      }
+    }
+
+    // Only ask for the next plan once the current one is over
+    const idle = !this.planRunner.isRunning();
+    if (idle && this.pending.length < LLM_CONFIG.MAX_IN_FLIGHT && now - this.lastRequestTime >= this.getRequestInterval()) {
+      this.lastRequestTime = now;
+      void this.request(now);
+    }
+  }
+
+  /**
+   * Send a request for the current game state and handle its answer
+   * @param stateTime - Scene time the state is captured at
+   */
+  private async request(stateTime: number): Promise<void> {
+    const request: PendingDecision = { stateTime, abort: new AbortController() };
+    this.pending.push(request);
+
+    const { plan, error } = await getEnemyAIPlan(this.getGameState(), request.abort.signal);
+
+    // Cancelled meanwhile (timed out, new round, scene shut down)
+    if (!this.pending.includes(request)) return;
+    this.pending.splice(this.pending.indexOf(request), 1);
+
+    if (error) {
+      this.failureStreak++;
+      this.onFailure(error);
+    } else {
+      this.failureStreak = 0;
+      this.onDecision(plan, stateTime);
+    }
+  }
+
+  /** ms to wait between requests - backs off while requests keep failing */
+  private getRequestInterval(): number {
+    if (this.failureStreak === 0) return LLM_CONFIG.REQUEST_INTERVAL;
+    return Math.min(LLM_CONFIG.REQUEST_INTERVAL * 2 ** this.failureStreak, LLM_CONFIG.MAX_BACKOFF);
+  }
+
+  /**
+   * No usable plan (already counted by ai-access) - the FSM covers until
+   * the server answers properly again
+   */
+  private onFailure(error: AIResponseError): void {
+    if (this.usingFallback || this.enemy.isDead()) return;
+
+    console.log(`[AI] No plan (${error.kind}), FSM taking over`);
+    this.usingFallback = true;
+    this.planRunner.cancel();
+    this.fallback.reset();
+  }
+
+  /**
+   * Start a plan unless it's stale or another one is still running
+   * @param stateTime - Scene time of the state the plan was based on
+   */
+  private onDecision(plan: EnemyPlan, stateTime: number): void {
+    const now = this.scene.time.now;
+    const age = now - stateTime;
+
+    // A newer snapshot was already answered, or the fight has moved on
+    if (stateTime < this.lastAppliedStateTime || age > LLM_CONFIG.MAX_STATE_AGE) {
+      console.log(`[AI] Dropped stale plan (${Math.round(age)}ms old)`);
+      return;
+    }
+    if (this.enemy.isDead()) return;
+
+    // A valid plan within budget - take back over from the FSM
+    if (this.usingFallback && age <= LLM_CONFIG.LATENCY_BUDGET) {
+      console.log('[AI] Server answering in time again, LLM resuming');
+      this.usingFallback = false;
+      this.enemy.stopMoving();
+      this.enemy.stopGuarding();
+    }
+    if (this.usingFallback) return;
+
+    // Another answer already started a plan - let it finish
+    if (this.planRunner.isRunning()) {
+      console.log('[AI] Dropped plan, current plan still running');
+      return;
+    }
+
+    this.lastAppliedStateTime = stateTime;
+    console.log(`[AI] Plan: ${plan.steps.map((step) => step.action).join(' -> ')}`);
+    this.planRunner.start(plan);
+  }
+
+  /** Abort a request and free its queue slot */
+  private cancel(request: PendingDecision): void {
+    request.abort.abort();
+    this.pending = this.pending.filter((other) => other !== request);
+  }
+
+  /**
+   * Collect all collision objects (platforms, ground) for AI decision making
+   */
+  private getCollisionObjects(): CollisionObject[] {
+    const objects: CollisionObject[] = [];
+
+    this.ground.getChildren().forEach((child) => {
+      const platform = child as Phaser.Physics.Arcade.Sprite;
+      const body = platform.body as Phaser.Physics.Arcade.StaticBody;
+
+      // Determine type based on size (ground is wider)
+      const isGround = body.width >= GAME_WIDTH * 0.5;
+
+      objects.push({
+        x: platform.x,
+        y: platform.y,
+        width: body.width,
+        height: body.height,
+        type: isGround ? 'floor' : 'platform',
+      });
+    });
+
+    return objects;
+  }
+
+  /**
+   * Build the current game state for AI decision making
+   */
+  private getGameState(): GameState {
+    const playerSprite = this.player.getSprite();
+    const enemySprite = this.enemy.getSprite();
+
+    return {
+      // Enemy state
+      enemyX: this.enemy.getX(),
+      enemyY: this.enemy.getY(),
+      enemyHeight: enemySprite.displayHeight,
+      enemyHealth: this.enemy.getCurrentHealth(),
+      enemyMaxHealth: this.enemy.getMaxHealth(),
+      enemyFacingRight: this.enemy.isFacingRight(),
+      canAttack: this.enemy.canAttack(),
+      canJump: this.enemy.canJump(),
+      enemyAttacks: EnemyAttackSchema.options.filter((attack) => this.enemy.hasAttack(attack)),
+
+      // Player state
+      playerX: playerSprite.x,
+      playerY: playerSprite.y,
+      playerHealth: this.player.getCurrentHealth(),
+      playerMaxHealth: this.player.getMaxHealth(),
+      playerGuarding: this.player.getState() === FighterState.GUARDING,
+
+      // Spatial relationship
+      distance: Math.abs(this.enemy.getX() - playerSprite.x),
+
+      // World objects
+      collisionObjects: this.getCollisionObjects(),
+    };
+  }
+
+  /** New round: drop every pending decision and start over with the LLM */
+  reset(): void {
+    [...this.pending].forEach((request) => this.cancel(request));
+    this.lastRequestTime = -Infinity;
+    this.lastAppliedStateTime = -Infinity;
+    this.usingFallback = false;
+    this.fallback.reset();
+    this.planRunner.cancel();
+  }
+
+  /** Abort everything still in flight */
+  destroy(): void {
+    [...this.pending].forEach((request) => this.cancel(request));
+    this.fallback.destroy();
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Plan Runner
+ * ============
+ * Carries out an EnemyPlan step by step. Each step waits out its delay,
+ * then starts (attacks retry until the enemy is free to attack), then runs
+ * until it's done - a move until its distance is covered, an attack until
+ * it has played out. The next step follows the finished one.
+ *
+ * A plan is abandoned when the enemy gets hit (unless the plan opts out)
+ * or when the player gets further away than the plan's maxDistance.
+ */
+
+import { Enemy } from '../entities/Enemy';
+import { Player } from '../entities/Player';
+import { FighterState } from '../entities/Fighter';
+import { EnemyAction, EnemyPlan } from './schemas';
+import { performEnemyAction } from './EnemyActions';
+
+/** Why a plan stopped early */
+export type PlanInterruptReason = 'hit' | 'outOfRange';
+
+/** Configuration for running plans */
+const PLAN_CONFIG = {
+  START_TIMEOUT: 1000, // ms a step may wait for the enemy to be able to act before it's skipped
+  MOVE_TIMEOUT: 3000, // ms a move may take to cover its distance (blocked by a wall or the player)
+  ATTACK_TIMEOUT: 2000, // ms an attack may take from warning to recovery
+};
+
+/** Where the current step is at */
+type StepPhase = 'delay' | 'start' | 'active';
+
+/** States in which the enemy is taking a hit */
+const HIT_STATES = [FighterState.HURT, FighterState.BLOCKSTUN, FighterState.JUGGLE, FighterState.KNOCKDOWN, FighterState.GRABBED];
+
+export class PlanRunner {
+  private enemy: Enemy;
+  private player: Player;
+
+  private plan: EnemyPlan | null = null;
+  private stepIndex: number = 0;
+  private phase: StepPhase = 'delay';
+  private phaseTimer: number = 0; // ms spent in the current phase
+  private lastHealth: number = 0;
+  private wasTakingHit: boolean = false;
+
+  constructor(enemy: Enemy, player: Player) {
+    this.enemy = enemy;
+    this.player = player;
+  }
+
+  /**
+   * Replace whatever is running with a new plan
+   */
+  start(plan: EnemyPlan): void {
+    this.plan = plan;
+    this.stepIndex = 0;
+    this.enterPhase('delay');
+    this.lastHealth = this.enemy.getCurrentHealth();
+    this.wasTakingHit = HIT_STATES.includes(this.enemy.getState());
+  }
+
+  /**
+   * Advance the plan
+   * @param delta - Time elapsed since last frame in ms
+   * @returns Why the plan was abandoned this frame, if it was
+   */
+  update(delta: number): PlanInterruptReason | null {
+    if (!this.plan) return null;
+
+    const interrupt = this.checkInterrupts();
+    if (interrupt) {
+      this.cancel();
+      return interrupt;
+    }
+
+    this.phaseTimer += delta;
+
+    // Several instant steps can finish in one frame
+    while (this.plan && this.advanceStep()) {
+      this.stepIndex++;
+      if (this.stepIndex >= this.plan.steps.length) {
+        this.plan = null;
+      } else {
+        this.enterPhase('delay');
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Move the current step along
+   * @returns true once the step is finished
+   */
+  private advanceStep(): boolean {
+    const step = this.plan!.steps[this.stepIndex];
+
+    if (this.phase === 'delay') {
+      if (this.phaseTimer < (step.delay ?? 0)) return false;
+      this.enterPhase('start');
+    }
+
+    if (this.phase === 'start') {
+      if (!performEnemyAction(this.enemy, step)) {
+        // Not able to act yet (mid-attack, airborne) - try again next frame
+        return this.phaseTimer >= PLAN_CONFIG.START_TIMEOUT;
+      }
+      this.enterPhase('active');
+    }
+
+    return this.isStepDone(step);
+  }
+
+  /** Check whether a started step has played out */
+  private isStepDone(step: EnemyAction): boolean {
+    switch (step.action) {
+      case 'moveLeft':
+      case 'moveRight':
+        // Moves without a distance keep going - the next step starts right away
+        if (!step.params?.pixels) return true;
+        return this.enemy.getAIMovementDirection() === 0 || this.phaseTimer >= PLAN_CONFIG.MOVE_TIMEOUT;
+      case 'punch':
+      case 'sidekick':
+      case 'throw':
+      case 'blast':
+        return (!this.enemy.isShowingWarning() && !this.enemy.isAttacking()) ||
+          this.phaseTimer >= PLAN_CONFIG.ATTACK_TIMEOUT;
+      default:
+        return true;
+    }
+  }
+
+  private enterPhase(phase: StepPhase): void {
+    this.phase = phase;
+    this.phaseTimer = 0;
+  }
+
+  /** Check the plan's interrupt conditions */
+  private checkInterrupts(): PlanInterruptReason | null {
+    const interrupt = this.plan?.interrupt;
+
+    // Lost health or was just put into hitstun/a grab (not still in one from before the plan)
+    const health = this.enemy.getCurrentHealth();
+    const takingHit = HIT_STATES.includes(this.enemy.getState());
+    const tookHit = health < this.lastHealth || (takingHit && !this.wasTakingHit);
+    this.lastHealth = health;
+    this.wasTakingHit = takingHit;
+    if (tookHit && interrupt?.onHit !== false) return 'hit';
+
+    const distance = Math.abs(this.enemy.getX() - this.player.getX());
+    if (interrupt?.maxDistance !== undefined && distance > interrupt.maxDistance) return 'outOfRange';
+
+    return null;
+  }
+
+  /** Whether a plan is still being carried out */
+  isRunning(): boolean {
+    return this.plan !== null;
+  }
+
+  /** Abandon the plan and stop moving */
+  cancel(): void {
+    this.plan = null;
+    this.enemy.stopMoving();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Replay Enemy Controller
+ * ========================
+ * Plays back a timed script of enemy actions - the same actions AI plans
+ * are made of - so a fight can be reproduced exactly (for debugging, demos
+ * or checking a balance change against the same enemy).
+ * The script restarts every round and loops once it runs out. Steps are
+ * validated like AI plans - invalid ones are skipped with a warning.
+ */
+
+import { Enemy } from '../entities/Enemy';
+import { EnemyAction, EnemyActionSchema } from './schemas';
+import { performEnemyAction } from './EnemyActions';
+import { EnemyController } from './EnemyController';
+
+/** One scripted action */
+export interface ReplayStep {
+  /** ms since the start of the script */
+  at: number;
+  action: EnemyAction;
+}
+
+/** Configuration for replays */
+const REPLAY_CONFIG = {
+  LOOP_DELAY: 1000, // ms after the last step before the script starts over
+};
+
+/** Script used when the match config doesn't provide one: walk in, mix up, back off */
+export const DEFAULT_REPLAY: ReplayStep[] = [
+  { at: 0, action: { action: 'moveLeft', params: { pixels: 500 } } },
+  { at: 1800, action: { action: 'punch' } },
+  { at: 2600, action: { action: 'sidekick' } },
+  { at: 3600, action: { action: 'moveRight', params: { pixels: 150 } } },
+  { at: 4400, action: { action: 'jump' } },
+  { at: 4600, action: { action: 'moveLeft', params: { pixels: 200 } } },
+  { at: 5400, action: { action: 'throw' } },
+  { at: 6400, action: { action: 'punch' } },
+  { at: 7200, action: { action: 'stopMoving' } },
+];
+
+export class ReplayEnemyController implements EnemyController {
+  private enemy: Enemy;
+  private steps: ReplayStep[];
+  private time: number = 0;
+  private nextStep: number = 0;
+
+  /**
+   * @param steps - Script to play back (sorted by time on load)
+   */
+  constructor(enemy: Enemy, steps: ReplayStep[] = DEFAULT_REPLAY) {
+    this.enemy = enemy;
+    this.steps = steps
+      .filter((step, index) => {
+        // Scripts can come from outside the code (registry match config)
+        const valid = Number.isFinite(step.at) && EnemyActionSchema.safeParse(step.action).success;
+        if (!valid) console.warn(`[Replay] Skipping invalid step ${index}:`, step);
+        return valid;
+      })
+      .sort((a, b) => a.at - b.at);
+  }
+
+  /**
+   * Perform every step that has come due
+   * @param delta - Time elapsed since last frame in ms
+   */
+  update(delta: number): void {
+    if (this.steps.length === 0) return;
+
+    this.time += delta;
+
+    while (this.nextStep < this.steps.length && this.steps[this.nextStep].at <= this.time) {
+      performEnemyAction(this.enemy, this.steps[this.nextStep].action);
+      this.nextStep++;
+    }
+
+    // Start over once the last step has had its time
+    const lastStep = this.steps[this.steps.length - 1];
+    if (this.nextStep >= this.steps.length && this.time >= lastStep.at + REPLAY_CONFIG.LOOP_DELAY) {
+      this.time = 0;
+      this.nextStep = 0;
+    }
+  }
+
+  /** Restart the script from the top */
+  reset(): void {
+    this.time = 0;
+    this.nextStep = 0;
+    this.enemy.stopMoving();
+  }
+
+  destroy(): void {}
+}
@@ -2,102 +2,129 @@
  * AI Access Module
  * =================
  * Provides functions to communicate with the AI server
- * and get enemy action decisions.
+ * and get enemy action plans. Everything the server sends back is checked
+ * against the shared schemas (schemas.ts) - a bad answer never reaches the
+ * enemy: it becomes an AIResponseError, is counted, and WAIT_PLAN is used
+ * instead. Only the first failure in a row is logged in full, then a
+ * count at most every few seconds, so a server that's down can't flood
+ * the console.
  */
 
-/** A collision object in the game world (platform, floor, etc.) */
-export interface CollisionObject {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  type: 'platform' | 'floor' | 'wall' | 'obstacle';
-}
+import { z } from 'zod';
+import { EnemyPlan, EnemyPlanRequest, EnemyPlanResponseSchema, GameState, WAIT_PLAN } from './schemas';
 
-/** Game state sent to the AI for decision making */
-export interface GameState {
-  // Enemy state
-  enemyX: number;
-  enemyY: number;
-  enemyHeight: number;
-  enemyHealth: number;
-  enemyMaxHealth: number;
-  enemyFacingRight: boolean;
-  canAttack: boolean;
-  canJump: boolean;
-  
-  // Player state
-  playerX: number;
-  playerY: number;
-  playerHealth: number;
-  playerMaxHealth: number;
-  
-  // Spatial relationship
-  distance: number;
-  
-  // World objects - platforms, floors, etc.
-  collisionObjects: CollisionObject[];
-}
+/** What went wrong with an AI request */
+export type AIErrorKind =
+  | 'network'          // The server couldn't be reached
+  | 'http'             // Non-2xx status without a readable envelope
+  | 'invalid-response' // Envelope or plan failed validation (unknown action, bad params)
+  | 'server'           // The server answered with success: false
+  | 'aborted';         // Cancelled by the caller (not counted)
 
-/** Available enemy actions that the AI can choose */
-export type EnemyActionType = 
-  | 'punch' 
-  | 'sidekick' 
-  | 'jump' 
-  | 'moveLeft' 
-  | 'moveRight' 
-  | 'stopMoving' 
-  | 'wait';
-
-/** Parameters for movement actions */
-export interface MoveParams {
-  pixels: number;
-}
+/** A failed AI request */
+export class AIResponseError extends Error {
+  readonly kind: AIErrorKind;
 
-/** The AI decision with action and optional parameters */
-export interface EnemyAction {
-  action: EnemyActionType;
-  params?: MoveParams;
+  constructor(kind: AIErrorKind, message: string) {
+    super(message);
+    this.name = 'AIResponseError';
+    this.kind = kind;
+  }
 }
 
-/** Response from the AI server */
-interface AIResponse {
-  action: EnemyActionType;
-  params?: MoveParams;
-  success: boolean;
-  error?: string;
+/** Outcome of a plan request - always carries a plan that is safe to run */
+export interface AIPlanResult {
+  plan: EnemyPlan;
+  /** Set when the plan is the WAIT_PLAN fallback */
+  error?: AIResponseError;
 }
 
+/** Failed requests by kind, since the game started */
+const errorCounts: Record<AIErrorKind, number> = {
+  'network': 0,
+  'http': 0,
+  'invalid-response': 0,
+  'server': 0,
+  'aborted': 0,
+};
+
+/**
+ * Get the number of failed AI requests by kind (for debugging)
+ */
+export const getAIErrorCounts = (): Readonly<Record<AIErrorKind, number>> => ({ ...errorCounts });
+
+/** ms between logs while requests keep failing */
+const ERROR_LOG_INTERVAL = 5000;
+
+// Failed requests since the last good answer, and when that run was last logged
+let failureRun = 0;
+let lastErrorLogTime = -Infinity;
+
+/** Count an error and fall back to waiting */
+const fail = (error: AIResponseError): AIPlanResult => {
+  if (error.kind !== 'aborted') {
+    errorCounts[error.kind]++;
+    failureRun++;
+
+    const now = performance.now();
+    if (failureRun === 1) {
+      console.error(`AI request failed (${error.kind}, ${errorCounts[error.kind]} so far):`, error.message);
+      lastErrorLogTime = now;
+    } else if (now - lastErrorLogTime >= ERROR_LOG_INTERVAL) {
+      console.error(`AI requests still failing (${failureRun} in a row, latest ${error.kind}):`, error.message);
+      lastErrorLogTime = now;
+    }
+  }
+  return { plan: WAIT_PLAN, error };
+};
+
+/** A good answer ends a run of failures */
+const succeed = (plan: EnemyPlan): AIPlanResult => {
+  if (failureRun > 0) {
+    console.log(`AI requests working again after ${failureRun} failures`);
+    failureRun = 0;
+  }
+  return { plan };
+};
+
 const API_BASE_URL = 'http://localhost:3001';
 
 /**
- * Get an AI decision for the enemy's next action
+ * Get an AI plan for the enemy's next moves
  * @param gameState - Current state of the game
- * @returns The action the AI decided to take, with any parameters
+ * @param signal - Aborts the request (the answer is no longer wanted)
+ * @returns The validated plan, or WAIT_PLAN with the error that prevented one
  */
-export const getEnemyAIAction = async (gameState: GameState): Promise<EnemyAction> => {
+export const getEnemyAIPlan = async (gameState: GameState, signal?: AbortSignal): Promise<AIPlanResult> => {
   try {
+    const request: EnemyPlanRequest = { gameState };
     const response = await fetch(`${API_BASE_URL}/api/enemy-action`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ gameState }),
+      body: JSON.stringify(request),
+      signal,
     });
 
-    if (!response.ok) {
-      console.error('AI server returned error:', response.status);
-      return { action: 'wait' };
-    }
+    const body: unknown = await response.json().catch(() => null);
+    const parsed = EnemyPlanResponseSchema.safeParse(body);
 
-    const data: AIResponse = await response.json();
-    return { 
-      action: data.action,
-      params: data.params,
-    };
+    if (!parsed.success) {
+      return fail(response.ok
+        ? new AIResponseError('invalid-response', z.prettifyError(parsed.error))
+        : new AIResponseError('http', `AI server returned ${response.status}`));
+    }
+    if (!parsed.data.success) {
+      return fail(new AIResponseError('server', parsed.data.error));
+    }
+    return succeed(parsed.data.plan);
   } catch (error) {
-    console.error('Failed to get AI action:', error);
-    return { action: 'wait' }; // Default to waiting if AI fails
+    // Aborted on purpose - nobody is waiting for this answer
+    if (signal?.aborted) {
+      return fail(new AIResponseError('aborted', 'Request aborted'));
+    }
+    return fail(new AIResponseError('network', error instanceof Error ? error.message : String(error)));
   }
 };
 
@@ -0,0 +1,128 @@
+/**
+ * AI Schemas
+ * ===========
+ * Zod schemas for everything exchanged with the AI server - the game state
+ * sent up, the enemy plan sent back and the response envelope around it.
+ * Shared by the game (ai-access.ts) and the server (server/index.ts), so
+ * both ends accept and reject exactly the same data.
+ */
+
+import { z } from 'zod';
+
+/** A collision object in the game world (platform, floor, etc.) */
+export const CollisionObjectSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  type: z.enum(['platform', 'floor', 'wall', 'obstacle']),
+});
+export type CollisionObject = z.infer<typeof CollisionObjectSchema>;
+
+/** Attacks an enemy can have (not every enemy has every one) */
+export const EnemyAttackSchema = z.enum(['punch', 'sidekick', 'throw', 'blast']);
+export type EnemyAttackType = z.infer<typeof EnemyAttackSchema>;
+
+/** Game state sent to the AI for decision making */
+export const GameStateSchema = z.object({
+  // Enemy state
+  enemyX: z.number(),
+  enemyY: z.number(),
+  enemyHeight: z.number(),
+  enemyHealth: z.number(),
+  enemyMaxHealth: z.number(),
+  enemyFacingRight: z.boolean(),
+  canAttack: z.boolean(),
+  canJump: z.boolean(),
+  enemyAttacks: z.array(EnemyAttackSchema), // Attacks this enemy has
+
+  // Player state
+  playerX: z.number(),
+  playerY: z.number(),
+  playerHealth: z.number(),
+  playerMaxHealth: z.number(),
+  playerGuarding: z.boolean(),
+
+  // Spatial relationship
+  distance: z.number(),
+
+  // World objects - platforms, floors, etc.
+  collisionObjects: z.array(CollisionObjectSchema),
+});
+export type GameState = z.infer<typeof GameStateSchema>;
+
+/** Limits on plans the AI can send */
+export const PLAN_LIMITS = {
+  MAX_STEPS: 5,
+  MAX_DELAY: 2000, // ms an action may wait before it starts
+  MAX_PIXELS: 1280, // Longest move (the stage width)
+};
+
+/** Available enemy actions that the AI can choose */
+export const EnemyActionTypeSchema = z.enum([
+  ...EnemyAttackSchema.options,
+  'jump',
+  'moveLeft',
+  'moveRight',
+  'stopMoving',
+  'wait',
+]);
+export type EnemyActionType = z.infer<typeof EnemyActionTypeSchema>;
+
+/** Parameters for movement actions */
+export const MoveParamsSchema = z.object({
+  pixels: z.number().positive().max(PLAN_LIMITS.MAX_PIXELS).optional()
+    .describe('moveLeft/moveRight only: pixels to move (e.g. 50, 100, 200). Omit to keep moving.'),
+});
+export type MoveParams = z.infer<typeof MoveParamsSchema>;
+
+/** One action of a plan, with optional parameters and timing */
+export const EnemyActionSchema = z.object({
+  action: EnemyActionTypeSchema,
+  params: MoveParamsSchema.optional(),
+  delay: z.number().min(0).max(PLAN_LIMITS.MAX_DELAY).optional()
+    .describe('ms to wait after the previous action finishes before starting this one (the duration of a wait)'),
+});
+export type EnemyAction = z.infer<typeof EnemyActionSchema>;
+
+/** When the client abandons a plan before it finishes */
+export const PlanInterruptSchema = z.object({
+  onHit: z.boolean().optional()
+    .describe('Abandon the plan when the enemy gets hit (default true)'),
+  maxDistance: z.number().positive().optional()
+    .describe('Abandon the plan when the player gets further away than this many pixels'),
+});
+export type PlanInterrupt = z.infer<typeof PlanInterruptSchema>;
+
+/** A short sequence of actions the enemy carries out in order */
+export const EnemyPlanSchema = z.object({
+  steps: z.array(EnemyActionSchema).min(1).max(PLAN_LIMITS.MAX_STEPS),
+  interrupt: PlanInterruptSchema.optional(),
+});
+export type EnemyPlan = z.infer<typeof EnemyPlanSchema>;
+
+/** Plan used whenever no valid plan is available */
+export const WAIT_PLAN: EnemyPlan = { steps: [{ action: 'wait' }] };
+
+/** Body of POST /api/enemy-action */
+export const EnemyPlanRequestSchema = z.object({
+  gameState: GameStateSchema,
+});
+export type EnemyPlanRequest = z.infer<typeof EnemyPlanRequestSchema>;
+
+/**
+ * Response envelope of POST /api/enemy-action
+ * Failures still carry a plan (WAIT_PLAN) for clients that only read the plan
+ */
+export const EnemyPlanResponseSchema = z.discriminatedUnion('success', [
+  z.object({
+    success: z.literal(true),
+    plan: EnemyPlanSchema,
+  }),
+  z.object({
+    success: z.literal(false),
+    error: z.string(),
+    plan: EnemyPlanSchema,
+  }),
+]);
+export type EnemyPlanResponse = z.infer<typeof EnemyPlanResponseSchema>;
@@ -0,0 +1,40 @@
+/**
+ * Armor
+ * ======
+ * Armored fighters take a hit's damage without being interrupted: no
+ * hitstun, knockback or launch, just a flash. Moves declare armor on a
+ * range of their frames (MoveData.armor); heavy enemies and bosses can
+ * wear it all the time (FighterConfig.ARMOR). Hit armor absorbs a few
+ * hits before breaking, super armor absorbs everything. Throws grab
+ * straight through armor.
+ */
+
+/** 'hit' absorbs a limited number of hits, 'super' absorbs every hit */
+export type ArmorType = 'hit' | 'super';
+
+/** Armor a fighter always wears while not reeling (bosses, bruisers) */
+export interface BodyArmor {
+  type: ArmorType;
+  /** Hit armor: hits absorbed before the next one interrupts (default 1) */
+  hits?: number;
+}
+
+/**
+ * Armor on part of a move.
+ * Frames count animation frames in sequence order, like startup/active/recovery.
+ */
+export interface MoveArmor extends BodyArmor {
+  /** First armored frame (0-based) */
+  from: number;
+  /** Last armored frame (inclusive) */
+  to: number;
+}
+
+export const ARMOR = {
+  /** Flash shown when hit armor absorbs a hit */
+  HIT_FLASH_COLOR: 0xffcc66,
+  /** Flash shown when super armor absorbs a hit */
+  SUPER_FLASH_COLOR: 0xff5533,
+  /** ms the flash lasts */
+  FLASH_DURATION: 90,
+};
@@ -0,0 +1,60 @@
+/**
+ * Attack Instance
+ * ================
+ * One performance of a move. Remembers which targets each of the move's
+ * hit events already connected with, so an active hitbox overlapping a
+ * target for several frames only deals its damage once.
+ */
+
+import { MoveData } from './MoveData.ts';
+
+export class AttackInstance {
+  readonly moveId: string;
+  readonly move: MoveData;
+
+  // Hit event indices that already connected, per target
+  private hitTargets: Map<object, Set<number>> = new Map();
+
+  // Whether the move's projectile was already fired
+  private projectileFired: boolean = false;
+
+  constructor(moveId: string, move: MoveData) {
+    this.moveId = moveId;
+    this.move = move;
+  }
+
+  /** Check if the given hit event already connected with a target */
+  hasHit(target: object, hitIndex: number): boolean {
+    return this.hitTargets.get(target)?.has(hitIndex) ?? false;
+  }
+
+  /** Record that a hit event connected with a target */
+  registerHit(target: object, hitIndex: number): void {
+    let hits = this.hitTargets.get(target);
+    if (!hits) {
+      hits = new Set();
+      this.hitTargets.set(target, hits);
+    }
+    hits.add(hitIndex);
+  }
+
+  /**
+   * Claim the move's projectile for firing
+   * @returns true the first time, false once it was fired
+   */
+  fireProjectile(): boolean {
+    if (this.projectileFired) return false;
+    this.projectileFired = true;
+    return true;
+  }
+
+  /** Check if the attack connected with anything (hit or blocked) */
+  hasConnected(): boolean {
+    return this.hitTargets.size > 0;
+  }
+
+  /** Total hits landed on a target by this attack */
+  getHitCount(target: object): number {
+    return this.hitTargets.get(target)?.size ?? 0;
+  }
+}
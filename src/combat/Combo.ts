@@ -0,0 +1,52 @@
+/**
+ * Combo
+ * ======
+ * Consecutive hits landed on a defender before they leave hitstun.
+ * Every hit after the first is scaled down, so loops can't run forever
+ * on full damage.
+ */
+
+/** Damage scaling per combo hit */
+export const DAMAGE_SCALING = {
+  PER_HIT: 0.1,   // Damage lost per previous hit in the combo (10%)
+  MIN: 0.3,       // Never below 30% damage
+};
+
+/**
+ * Damage multiplier for the next hit of a combo
+ * @param hitsLanded - Hits already landed in the combo
+ */
+export function getDamageScaling(hitsLanded: number): number {
+  return Math.max(DAMAGE_SCALING.MIN, 1 - DAMAGE_SCALING.PER_HIT * hitsLanded);
+}
+
+export class Combo<T extends object = object> {
+  /** Fighter landing the combo */
+  readonly attacker: T;
+
+  private hits: number = 0;
+  private damage: number = 0;
+
+  constructor(attacker: T) {
+    this.attacker = attacker;
+  }
+
+  /** Damage multiplier for the next hit */
+  getDamageScaling(): number {
+    return getDamageScaling(this.hits);
+  }
+
+  /** Record a landed hit (damage after scaling) */
+  addHit(damage: number): void {
+    this.hits++;
+    this.damage += damage;
+  }
+
+  getHits(): number {
+    return this.hits;
+  }
+
+  getDamage(): number {
+    return this.damage;
+  }
+}
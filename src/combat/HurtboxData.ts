@@ -0,0 +1,39 @@
+/**
+ * Hurtbox Data
+ * =============
+ * Per-animation-frame hurtboxes for characters. Each frame can declare
+ * several boxes (head, torso, legs) so poses like a matrix dodge avoid
+ * attacks by their shape, and reactions can depend on where a hit landed.
+ */
+
+import { HitboxRect } from './MoveData.ts';
+
+/** Body region a hurtbox covers */
+export type HurtboxRegion = 'head' | 'torso' | 'legs';
+
+/** A hurtbox rectangle (same coordinate space as move hitboxes) */
+export interface Hurtbox extends HitboxRect {
+  region: HurtboxRegion;
+}
+
+/** A character's hurtboxes */
+export interface HurtboxTable {
+  /** Standing boxes, used for any frame without an override */
+  default: Hurtbox[];
+  /**
+   * Per-animation overrides keyed by animation key.
+   * Entry i holds the boxes for animation frame i + 1; missing entries use the default.
+   */
+  animations: Record<string, (Hurtbox[] | undefined)[]>;
+}
+
+/**
+ * Get the hurtboxes for an animation frame
+ * @param table - The character's hurtbox table
+ * @param animKey - Current animation key
+ * @param frameIndex - Phaser animation frame index (1-based)
+ */
+export function getHurtboxes(table: HurtboxTable, animKey: string | undefined, frameIndex: number): Hurtbox[] {
+  const frames = animKey ? table.animations[animKey] : undefined;
+  return frames?.[frameIndex - 1] ?? table.default;
+}
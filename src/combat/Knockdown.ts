@@ -0,0 +1,32 @@
+/**
+ * Juggle & Knockdown
+ * ===================
+ * Tuning for launched fighters. Launchers (MoveData.launch) send the
+ * defender into an airborne juggle; every extra juggle hit makes them
+ * fall faster. The first landing bounces off the ground, the second
+ * knocks them down, and they get back up invulnerable.
+ */
+
+export const JUGGLE = {
+  /** Upward velocity for non-launcher hits on an airborne defender */
+  POP_VELOCITY: 220,
+  /** Extra gravity per juggle hit after the first (fraction of world gravity) */
+  GRAVITY_SCALING: 0.2,
+  /** Cap on the extra gravity (fraction of world gravity) */
+  MAX_EXTRA_GRAVITY: 1,
+  /** ms airborne before touching the ground counts as landing */
+  MIN_AIR_TIME: 120,
+  /** Upward velocity of the ground bounce */
+  BOUNCE_VELOCITY: 280,
+  /** Horizontal speed kept through the bounce */
+  BOUNCE_SPEED_RATIO: 0.5,
+};
+
+export const KNOCKDOWN = {
+  /** ms lying on the ground before getting up */
+  DURATION: 800,
+  /** ms still invulnerable after the wake-up finishes */
+  WAKEUP_INVINCIBILITY: 300,
+  /** ms to get up for fighters without a wake-up animation */
+  WAKEUP_DURATION: 500,
+};
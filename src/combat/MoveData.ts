@@ -0,0 +1,136 @@
+/**
+ * Move Data
+ * ==========
+ * Frame data and hitbox definitions for character attacks.
+ * Each character declares a move table (see combat/moves/) that the
+ * Fighter plays and GameScene resolves hits from - no per-class switches.
+ */
+
+import { MoveArmor } from './Armor.ts';
+
+/**
+ * Hitbox rectangle relative to the fighter's feet, for a fighter facing right
+ * (mirrored horizontally when facing left). Values are in display pixels.
+ */
+export interface HitboxRect {
+  /** Horizontal offset of the box center */
+  x: number;
+  /** Vertical offset of the box center (negative = above the feet) */
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Hit spark style (see systems/VFXManager.ts) */
+export type ImpactEffect = 'spark' | 'heavy' | 'energy';
+
+/**
+ * Projectile fired by a move (see entities/Projectile.ts).
+ * Positions and sizes are in display pixels, for a fighter facing right.
+ */
+export interface ProjectileData {
+  /** Texture key of the projectile sprite */
+  texture: string;
+  /** Spawn point relative to the fighter's feet */
+  spawnX: number;
+  spawnY: number;
+  /** Hitbox size */
+  width: number;
+  height: number;
+  /** Horizontal speed (pixels/second) */
+  speed: number;
+  /** Upward launch velocity (pixels/second); 0 flies straight, otherwise it arcs under gravity */
+  arc: number;
+  /** Time before the projectile fizzles out (ms) */
+  lifetime: number;
+}
+
+/**
+ * Frame data for a single attack.
+ * Startup/active/recovery count animation frames in sequence order, so
+ * yoyo animations replay their active frames on the way back.
+ */
+export interface MoveData {
+  /** Animation key played for the move */
+  animation: string;
+  /** Frames before the first active frame */
+  startup: number;
+  /** Frames with live hitboxes */
+  active: number;
+  /** Frames after the last active frame */
+  recovery: number;
+  /** Hitboxes for each active frame (index 0 = first active frame) */
+  hitboxes: HitboxRect[][];
+  /**
+   * Active frames that start a new hit event (default [0] = single hit).
+   * Each hit event connects at most once per target, e.g. [0, 1, 2] for a 3-hit flurry.
+   */
+  hits?: number[];
+  /** Damage dealt per hit */
+  damage: number;
+  /** Knockback velocity applied to the defender (pixels/second) */
+  knockback: number;
+  /** Time the defender stays in hit reaction (ms) */
+  hitstun: number;
+  /** Time the defender stays in blockstun when guarding (ms) */
+  blockstun: number;
+  /** Frames both fighters freeze on impact */
+  hitstop: number;
+  /**
+   * Launcher: upward velocity given to the defender (pixels/second).
+   * Launched fighters are juggled until they land (see combat/Knockdown.ts)
+   */
+  launch?: number;
+  /** Super move: costs a full super meter and builds no meter on hit */
+  super?: boolean;
+  /** Throw: ignores block and grabs instead of striking (see combat/Throw.ts) */
+  throw?: boolean;
+  /**
+   * Ranged move: fires this projectile on the first active frame. The
+   * projectile deals the move's damage; the move's own hitboxes still strike
+   */
+  projectile?: ProjectileData;
+  /** Hit spark style (default 'spark'); sparks also scale with damage */
+  impact?: ImpactEffect;
+  /** Frames where hits deal damage without interrupting the move (see combat/Armor.ts) */
+  armor?: MoveArmor;
+}
+
+/** A character's moves keyed by move id (e.g. 'punch', 'sidekick') */
+export type MoveTable = Record<string, MoveData>;
+
+/**
+ * Get the active frame number for an animation frame
+ * @param move - The move being performed
+ * @param frameIndex - Phaser animation frame index (1-based)
+ * @returns 0-based active frame number, or -1 outside the active window
+ */
+export function getActiveFrame(move: MoveData, frameIndex: number): number {
+  const activeFrame = frameIndex - 1 - move.startup;
+  return activeFrame >= 0 && activeFrame < move.active ? activeFrame : -1;
+}
+
+/**
+ * Get the hit event an active frame belongs to
+ * @param move - The move being performed
+ * @param activeFrame - 0-based active frame number
+ * @returns 0-based hit event index
+ */
+export function getHitIndex(move: MoveData, activeFrame: number): number {
+  const hits = move.hits ?? [0];
+  return Math.max(0, hits.filter((start) => start <= activeFrame).length - 1);
+}
+
+/**
+ * Get how far in front of the fighter's feet the move's hitboxes reach
+ * @returns Display pixels to the furthest hitbox edge (0 without hitboxes)
+ */
+export function getMoveReach(move: MoveData): number {
+  const edges = move.hitboxes.flat().map((box) => box.x + box.width / 2);
+  return Math.max(0, ...edges);
+}
+
+/** Total number of animation frames the move declares */
+export function getTotalFrames(move: MoveData): number {
+  return move.startup + move.active + move.recovery;
+}
@@ -0,0 +1,61 @@
+/**
+ * Parry
+ * ======
+ * Timing windows and grading for parries. A parry is a counter-dodge
+ * pressed close to the moment an enemy attack executes (after its warning),
+ * while the player is within that attack's reach.
+ */
+
+import { MoveData } from './MoveData.ts';
+import { Fighter } from '../entities/Fighter.ts';
+
+/** How close to the attack the parry was timed */
+export type ParryGrade = 'perfect' | 'good' | 'late';
+
+/** Timing windows, in ms relative to the attack executing */
+export const PARRY_WINDOWS = {
+  PERFECT: 80,   // Up to 80ms before the attack executes
+  GOOD: 160,     // Up to 160ms before
+  LATE: 100,     // Up to 100ms after (attack already started)
+};
+
+/** Slack beyond an attack's hitbox reach that still counts as in range (pixels) */
+export const PARRY_REACH_MARGIN = 60;
+
+/** Per-grade rewards */
+export const PARRY_REWARDS: Record<ParryGrade, { stagger: number; damageMultiplier: number }> = {
+  perfect: { stagger: 1200, damageMultiplier: 1.5 }, // stagger in ms
+  good: { stagger: 900, damageMultiplier: 1.25 },
+  late: { stagger: 600, damageMultiplier: 1.1 },
+};
+
+/** Payload of GameEvents.PARRY */
+export interface ParryEvent {
+  /** Fighter who parried */
+  fighter: Fighter;
+  grade: ParryGrade;
+  /** Press time relative to the attack executing (ms, negative = before) */
+  offset: number;
+}
+
+/**
+ * Check if a move can be parried at all
+ * Throws are grabs (tech them instead) and projectiles are dealt with in flight
+ */
+export function isParryableMove(move: MoveData): boolean {
+  return !move.throw && !move.projectile;
+}
+
+/**
+ * Grade a parry attempt
+ * @param offset - Press time relative to the attack executing (ms, negative = before)
+ * @returns The grade, or null if outside every window
+ */
+export function gradeParry(offset: number): ParryGrade | null {
+  if (offset <= 0) {
+    if (offset >= -PARRY_WINDOWS.PERFECT) return 'perfect';
+    if (offset >= -PARRY_WINDOWS.GOOD) return 'good';
+    return null;
+  }
+  return offset <= PARRY_WINDOWS.LATE ? 'late' : null;
+}
@@ -0,0 +1,33 @@
+/**
+ * Super Meter
+ * ============
+ * How fighters build super meter. A full meter is spent on a super move
+ * (see MoveData.super); super moves never build meter themselves.
+ */
+
+import Phaser from 'phaser';
+
+export const SUPER_METER = {
+  /** Meter needed for a super move */
+  MAX: 100,
+  /** Meter gained per point of damage dealt */
+  DEAL_RATIO: 0.8,
+  /** Meter gained per point of damage the opponent blocked */
+  BLOCKED_RATIO: 0.4,
+  /** Meter gained per point of damage taken */
+  TAKE_RATIO: 0.5,
+  /** Meter gained for a successful counter-dodge */
+  COUNTER_DODGE: 15,
+  /** Meter gained for a parry (any grade) */
+  PARRY: 20,
+};
+
+/** Payload of GameEvents.SUPER, emitted when a super move starts */
+export interface SuperEvent {
+  /** Move that was started */
+  moveId: string;
+  /** Sprite of the fighter performing it */
+  sprite: Phaser.GameObjects.Sprite;
+  /** Frames everything freezes before the move plays */
+  freezeFrames: number;
+}
@@ -0,0 +1,15 @@
+/**
+ * Throw
+ * ======
+ * Throws are moves with `throw: true`. They use the regular hitbox
+ * system but ignore block, and only grab grounded fighters who aren't
+ * reeling from a hit. A grabbed fighter is held for a short tech window:
+ * pressing throw in time breaks free, otherwise the throw lands.
+ */
+
+export const THROW = {
+  /** ms the grabbed fighter has to press throw and break free */
+  TECH_WINDOW: 300,
+  /** Velocity both fighters are pushed apart with on a tech */
+  TECH_PUSHBACK: 350,
+};
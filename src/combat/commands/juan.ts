@@ -0,0 +1,26 @@
+/**
+ * Juan Commands
+ * ==============
+ * Special moves and combo chains for Juan, matched by the CommandParser.
+ * Listed by priority: specials first, then chains. A press that matches
+ * nothing performs the button's own move.
+ */
+
+import { CommandDefinition } from '../../systems/CommandParser.ts';
+import { JuanMoveId } from '../moves/juan.ts';
+
+// Combo chain timing
+const COMBO_WINDOW = 800;     // ms to chain combo
+const COMBO_MIN_DELAY = 250;  // ms before combo can trigger (let first anim play)
+
+export const JUAN_COMMANDS: CommandDefinition<JuanMoveId>[] = [
+  // Specials
+  { move: 'rising-uppercut', motion: [2, 3, 6], button: 'punch', window: 400 },             // down, down-forward, forward + C
+  { move: 'charge-sidekick', charge: { direction: 4, time: 600 }, motion: [6], button: 'kick', window: 250 }, // hold back, forward + X
+
+  // Chains (e.g. C, C = punch -> uppercut, then X/Z = sidekick)
+  { move: 'uppercut', after: 'punch', button: 'punch', window: COMBO_WINDOW, minDelay: COMBO_MIN_DELAY },
+  { move: 'sidekick', after: 'uppercut', button: 'kick', window: COMBO_WINDOW, minDelay: COMBO_MIN_DELAY },
+  { move: 'sidekick', after: 'uppercut', button: 'sidekick', window: COMBO_WINDOW, minDelay: COMBO_MIN_DELAY },
+  { move: 'sidekick', after: 'kick', button: 'kick', window: COMBO_WINDOW, minDelay: COMBO_MIN_DELAY },
+];
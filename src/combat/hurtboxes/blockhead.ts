@@ -0,0 +1,17 @@
+/**
+ * Blockhead Hurtboxes
+ * ====================
+ * Blockhead's sprite origin is the frame bottom; his feet sit 24px above it
+ * and he stands ~185px tall on screen.
+ */
+
+import { HurtboxTable } from '../HurtboxData.ts';
+
+export const BLOCKHEAD_HURTBOXES: HurtboxTable = {
+  default: [
+    { region: 'head', x: 0, y: -185, width: 50, height: 50 },
+    { region: 'torso', x: 0, y: -125, width: 70, height: 70 },
+    { region: 'legs', x: 0, y: -57, width: 60, height: 66 },
+  ],
+  animations: {},
+};
@@ -0,0 +1,47 @@
+/**
+ * Juan Hurtboxes
+ * ===============
+ * Juan's feet are at the sprite origin; he stands ~130px tall on screen.
+ */
+
+import { Hurtbox, HurtboxTable } from '../HurtboxData.ts';
+
+const STANDING: Hurtbox[] = [
+  { region: 'head', x: 5, y: -115, width: 40, height: 30 },
+  { region: 'torso', x: 0, y: -75, width: 56, height: 50 },
+  { region: 'legs', x: 0, y: -25, width: 50, height: 50 },
+];
+
+/** Leaning back - head pulled behind the torso */
+const LEANING: Hurtbox[] = [
+  { region: 'head', x: -25, y: -100, width: 40, height: 30 },
+  { region: 'torso', x: -10, y: -70, width: 56, height: 45 },
+  { region: 'legs', x: 0, y: -25, width: 50, height: 50 },
+];
+
+/** Bent all the way back - everything below high attacks */
+const MATRIX_LOW: Hurtbox[] = [
+  { region: 'head', x: -50, y: -55, width: 40, height: 30 },
+  { region: 'torso', x: -20, y: -40, width: 60, height: 36 },
+  { region: 'legs', x: 15, y: -12, width: 60, height: 24 },
+];
+
+export const JUAN_HURTBOXES: HurtboxTable = {
+  default: STANDING,
+  animations: {
+    // react -> lean back -> dodge -> full dodge
+    'juan-dodge': [STANDING, LEANING, LEANING, LEANING],
+    // stance -> lean -> lean more -> lean deep -> crouch
+    'juan-matrix-dodge': [
+      STANDING,
+      [
+        { region: 'head', x: -10, y: -110, width: 40, height: 30 },
+        { region: 'torso', x: 0, y: -75, width: 56, height: 50 },
+        { region: 'legs', x: 0, y: -25, width: 50, height: 50 },
+      ],
+      LEANING,
+      MATRIX_LOW,
+      MATRIX_LOW,
+    ],
+  },
+};
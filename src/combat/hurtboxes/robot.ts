@@ -0,0 +1,17 @@
+/**
+ * Robot Hurtboxes
+ * ================
+ * The robot's sprite origin is the frame bottom; its feet sit 24px above it
+ * and it stands ~232px tall on screen, with broad shoulders.
+ */
+
+import { HurtboxTable } from '../HurtboxData.ts';
+
+export const ROBOT_HURTBOXES: HurtboxTable = {
+  default: [
+    { region: 'head', x: 0, y: -230, width: 55, height: 55 },
+    { region: 'torso', x: 0, y: -160, width: 110, height: 85 },
+    { region: 'legs', x: 0, y: -70, width: 80, height: 95 },
+  ],
+  animations: {},
+};
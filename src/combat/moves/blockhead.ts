@@ -0,0 +1,65 @@
+/**
+ * Blockhead Move Table
+ * =====================
+ * Frame data and hitboxes for the Blockhead enemy's attacks.
+ */
+
+import { MoveTable } from '../MoveData.ts';
+
+export const BLOCKHEAD_MOVES: MoveTable = {
+  // stance -> wind-up -> punch start -> punch_extend (wide)
+  punch: {
+    animation: 'enemy-punch',
+    startup: 3,
+    active: 1,
+    recovery: 0,
+    hitboxes: [
+      [{ x: 70, y: -120, width: 100, height: 50 }], // Further reach, aimed at head height
+    ],
+    damage: 10, // Same as player punch damage
+    knockback: 250,
+    hitstun: 300,
+    blockstun: 200,
+    hitstop: 6,
+  },
+
+  // stance -> knee up -> knee high -> kick_extend (wide) -> kick_follow (wide), yoyo
+  sidekick: {
+    animation: 'enemy-sidekick',
+    startup: 3,
+    active: 2,
+    recovery: 0,
+    hitboxes: [
+      [{ x: 90, y: -80, width: 120, height: 60 }], // Further reach for extended kick
+      [{ x: 90, y: -80, width: 120, height: 60 }],
+    ],
+    damage: 15, // Sidekick does more damage than punch
+    knockback: 250,
+    hitstun: 400,
+    blockstun: 260,
+    hitstop: 8,
+    launch: 280, // Knocks down
+    impact: 'heavy',
+    armor: { type: 'hit', from: 1, to: 2 }, // Powers through one hit while winding up
+  },
+
+  // Reuses the punch: reaches out and grabs on punch start / punch_extend
+  throw: {
+    animation: 'enemy-punch',
+    startup: 2,
+    active: 2,
+    recovery: 0,
+    hitboxes: [
+      [{ x: 50, y: -110, width: 70, height: 90 }], // Short range, body height
+      [{ x: 50, y: -110, width: 70, height: 90 }],
+    ],
+    damage: 14,
+    knockback: 300,
+    hitstun: 500,
+    blockstun: 0, // Throws can't be blocked
+    hitstop: 8,
+    launch: 320, // Slammed down
+    impact: 'heavy',
+    throw: true,
+  },
+};
@@ -0,0 +1,221 @@
+/**
+ * Juan Move Table
+ * ================
+ * Frame data and hitboxes for Juan's attacks.
+ */
+
+import { MoveData } from '../MoveData.ts';
+
+/** Ids of Juan's moves */
+export type JuanMoveId =
+  | 'punch'
+  | 'uppercut'
+  | 'aerial-punch'
+  | 'kick'
+  | 'sidekick'
+  | 'rising-uppercut'
+  | 'charge-sidekick'
+  | 'super-rush'
+  | 'super-finisher'
+  | 'throw';
+
+export const JUAN_MOVES: Record<JuanMoveId, MoveData> = {
+  // guard -> wind-up -> jab -> impact -> retract -> recovery
+  punch: {
+    animation: 'juan-punch',
+    startup: 1,
+    active: 2,
+    recovery: 3,
+    hitboxes: [
+      [{ x: 60, y: -85, width: 100, height: 50 }],
+      [{ x: 60, y: -85, width: 100, height: 50 }],
+    ],
+    damage: 10,
+    knockback: 250,
+    hitstun: 300,
+    blockstun: 200,
+    hitstop: 6,
+  },
+
+  // Upward strike, plays forward then backward (yoyo)
+  uppercut: {
+    animation: 'juan-uppercut',
+    startup: 0,
+    active: 3,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 40, y: -100, width: 70, height: 80 }],
+      [{ x: 40, y: -100, width: 70, height: 80 }],
+      [{ x: 40, y: -100, width: 70, height: 80 }],
+    ],
+    damage: 20, // Combo punch
+    knockback: 250,
+    hitstun: 450,
+    blockstun: 300,
+    hitstop: 10,
+    launch: 520, // Launcher - follow up with the sidekick chain or an aerial punch
+    impact: 'heavy',
+  },
+
+  // stance -> windup (wide) -> punch (wide) -> recovery
+  'aerial-punch': {
+    animation: 'juan-aerial-punch',
+    startup: 1,
+    active: 2,
+    recovery: 1,
+    hitboxes: [
+      [{ x: 60, y: -85, width: 100, height: 50 }],
+      [{ x: 60, y: -85, width: 100, height: 50 }],
+    ],
+    damage: 15,
+    knockback: 250,
+    hitstun: 350,
+    blockstun: 250,
+    hitstop: 8,
+  },
+
+  // stance -> knee up -> low -> mid -> high kick -> knee up -> stance
+  kick: {
+    animation: 'juan-kick',
+    startup: 2,
+    active: 3,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 55, y: -55, width: 90, height: 40 }], // Low kick
+      [{ x: 65, y: -80, width: 100, height: 40 }], // Mid kick
+      [{ x: 65, y: -105, width: 100, height: 45 }], // High kick
+    ],
+    damage: 12,
+    knockback: 280,
+    hitstun: 350,
+    blockstun: 220,
+    hitstop: 7,
+  },
+
+  // hop -> stance -> lunge -> knee up -> extend (wide) -> follow (wide) -> retract -> stance
+  sidekick: {
+    animation: 'juan-sidekick',
+    startup: 4,
+    active: 2,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 75, y: -95, width: 110, height: 50 }], // Further reach for extended kick
+      [{ x: 70, y: -100, width: 110, height: 50 }],
+    ],
+    damage: 18, // Combo finisher
+    knockback: 350,
+    hitstun: 450,
+    blockstun: 280,
+    hitstop: 10,
+    impact: 'heavy',
+  },
+
+  // Special (down, down-forward, forward + punch): two-hit uppercut
+  'rising-uppercut': {
+    animation: 'juan-uppercut',
+    startup: 0,
+    active: 3,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 40, y: -90, width: 80, height: 100 }],
+      [{ x: 40, y: -110, width: 80, height: 100 }],
+      [{ x: 40, y: -120, width: 80, height: 100 }],
+    ],
+    hits: [0, 2],
+    damage: 14, // Per hit
+    knockback: 300,
+    hitstun: 500,
+    blockstun: 320,
+    hitstop: 10,
+    launch: 600,
+    impact: 'heavy',
+  },
+
+  // Special (charge back, forward + kick): long-reaching sidekick
+  'charge-sidekick': {
+    animation: 'juan-sidekick',
+    startup: 4,
+    active: 2,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 85, y: -95, width: 130, height: 55 }],
+      [{ x: 80, y: -100, width: 130, height: 55 }],
+    ],
+    damage: 24,
+    knockback: 450,
+    hitstun: 500,
+    blockstun: 320,
+    hitstop: 12,
+    launch: 300, // Knocks down
+    impact: 'heavy',
+    armor: { type: 'hit', from: 0, to: 3 }, // Absorbs one hit during the charge-up
+  },
+
+  // Super (full meter): punch, punch, kick, uppercut flurry...
+  'super-rush': {
+    animation: 'juan-super-rush',
+    startup: 2,
+    active: 10,
+    recovery: 1,
+    hitboxes: [
+      [{ x: 60, y: -85, width: 100, height: 50 }], // Jab
+      [{ x: 60, y: -85, width: 100, height: 50 }],
+      [],                                          // Wind-up
+      [{ x: 60, y: -85, width: 100, height: 50 }], // Jab
+      [{ x: 60, y: -85, width: 100, height: 50 }],
+      [{ x: 65, y: -80, width: 100, height: 40 }], // Mid kick
+      [{ x: 65, y: -105, width: 100, height: 45 }],
+      [{ x: 40, y: -100, width: 80, height: 100 }], // Uppercut
+      [{ x: 40, y: -110, width: 80, height: 100 }],
+      [{ x: 40, y: -120, width: 80, height: 100 }],
+    ],
+    hits: [0, 3, 5, 7],
+    damage: 10, // Per hit
+    knockback: 60, // Keeps the defender in range for the next hit
+    hitstun: 600,
+    blockstun: 300,
+    hitstop: 5,
+    super: true,
+  },
+
+  // ...into a full-power sidekick
+  'super-finisher': {
+    animation: 'juan-sidekick',
+    startup: 4,
+    active: 2,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 85, y: -95, width: 140, height: 60 }],
+      [{ x: 80, y: -100, width: 140, height: 60 }],
+    ],
+    damage: 35,
+    knockback: 650,
+    hitstun: 800,
+    blockstun: 400,
+    hitstop: 16,
+    launch: 380,
+    impact: 'heavy',
+    armor: { type: 'super', from: 0, to: 3 }, // Can't be stopped once it winds up
+    super: true,
+  },
+
+  // guard -> wind-up -> reach -> grab (held during the tech window) -> heave -> recovery
+  throw: {
+    animation: 'juan-throw',
+    startup: 2,
+    active: 2,
+    recovery: 3,
+    hitboxes: [
+      [{ x: 45, y: -75, width: 70, height: 80 }], // Short range, body height
+      [{ x: 45, y: -75, width: 70, height: 80 }],
+    ],
+    damage: 14,
+    knockback: 300,
+    hitstun: 500,
+    blockstun: 0, // Throws can't be blocked
+    hitstop: 8,
+    launch: 320, // Slammed down
+    impact: 'heavy',
+    throw: true,
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Robot Move Table
+ * =================
+ * Frame data and hitboxes for the Robot enemy's attacks.
+ * The robot only has its design pose so far - each move holds that pose
+ * for as many frames as its frame data needs.
+ */
+
+import { MoveTable } from '../MoveData.ts';
+
+export const ROBOT_MOVES: MoveTable = {
+  // Slow claw swipe to keep the player off
+  punch: {
+    animation: 'robot-punch',
+    startup: 4,
+    active: 1,
+    recovery: 2,
+    hitboxes: [
+      [{ x: 75, y: -130, width: 110, height: 70 }],
+    ],
+    damage: 12,
+    knockback: 320,
+    hitstun: 320,
+    blockstun: 220,
+    hitstop: 7,
+    impact: 'heavy',
+  },
+
+  // Crushing grab
+  throw: {
+    animation: 'robot-throw',
+    startup: 3,
+    active: 2,
+    recovery: 1,
+    hitboxes: [
+      [{ x: 55, y: -120, width: 80, height: 100 }], // Short range, body height
+      [{ x: 55, y: -120, width: 80, height: 100 }],
+    ],
+    damage: 16,
+    knockback: 300,
+    hitstun: 500,
+    blockstun: 0, // Throws can't be blocked
+    hitstop: 8,
+    launch: 320, // Slammed down
+    impact: 'heavy',
+    throw: true,
+  },
+
+  // Energy blast fired from the forearm
+  blast: {
+    animation: 'robot-blast',
+    startup: 4,
+    active: 1,
+    recovery: 3,
+    hitboxes: [
+      [], // The projectile does the hitting
+    ],
+    damage: 10,
+    knockback: 200,
+    hitstun: 320,
+    blockstun: 200,
+    hitstop: 5,
+    impact: 'energy',
+    projectile: {
+      texture: 'energy-orb',
+      spawnX: 90,
+      spawnY: -140, // Forearm height
+      width: 28,
+      height: 28,
+      speed: 480,
+      arc: 0, // Straight shot
+      lifetime: 1800,
+    },
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * Match Configuration
+ * ====================
+ * Who the player fights: one slot per enemy with the character (Blockhead
+ * or the Robot), the controller driving it (FSM, LLM, keyboard or replay)
+ * and whether it's the boss variant.
+ *
+ * GameScene reads the config from the registry ('matchConfig'), so menus can
+ * set it before starting a match. Without one, the `?enemies=` URL parameter
+ * picks the controllers (e.g. `?enemies=llm` or `?enemies=fsm,replay`), each
+ * optionally followed by `:robot` for the Robot and/or `:boss` for the boss
+ * variant (e.g. `?enemies=fsm:robot:boss,llm`), and otherwise the default
+ * below is used.
+ */
+
+import Phaser from 'phaser';
+import { EnemyControllerType } from '../ai/EnemyController.ts';
+import { ReplayStep } from '../ai/ReplayEnemyController.ts';
+
+/** Registry key of the match config */
+export const MATCH_CONFIG_KEY = 'matchConfig';
+
+/** Playable enemy characters */
+export type EnemyCharacterType = 'blockhead' | 'robot';
+
+/** One enemy in the match */
+export interface EnemySlot {
+  controller: EnemyControllerType;
+  /** Who fights (defaults to Blockhead) */
+  character?: EnemyCharacterType;
+  /** Boss variant: more health and guard, wears hit armor */
+  boss?: boolean;
+  /** Script for the replay controller (defaults to a built-in demo) */
+  replay?: ReplayStep[];
+}
+
+/** Setup of a match */
+export interface MatchConfig {
+  enemies: EnemySlot[];
+}
+
+/** A single FSM-driven Blockhead */
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  enemies: [{ controller: 'fsm' }],
+};
+
+const CONTROLLER_TYPES: EnemyControllerType[] = ['fsm', 'llm', 'keyboard', 'replay'];
+
+/**
+ * Parse one `?enemies=` entry, e.g. `llm`, `fsm:robot` or `fsm:boss`
+ * @returns null if the controller is unknown
+ */
+function parseEnemySlot(entry: string): EnemySlot | null {
+  const [controller, ...options] = entry.trim().toLowerCase().split(':');
+  if (!CONTROLLER_TYPES.includes(controller as EnemyControllerType)) {
+    return null;
+  }
+
+  const slot: EnemySlot = { controller: controller as EnemyControllerType };
+  if (options.includes('robot')) {
+    slot.character = 'robot';
+  }
+  if (options.includes('boss')) {
+    slot.boss = true;
+  }
+  return slot;
+}
+
+/**
+ * Resolve the match config: registry, then URL parameter, then default
+ */
+export function getMatchConfig(registry: Phaser.Data.DataManager): MatchConfig {
+  const stored = registry.get(MATCH_CONFIG_KEY) as MatchConfig | undefined;
+  if (stored && stored.enemies.length > 0) {
+    return stored;
+  }
+
+  const param = new URLSearchParams(window.location.search).get('enemies');
+  if (param) {
+    const enemies = param
+      .split(',')
+      .map(parseEnemySlot)
+      .filter((slot): slot is EnemySlot => slot !== null);
+
+    if (enemies.length > 0) {
+      return { enemies };
+    }
+    console.warn(`[MatchConfig] Unknown enemy controllers "${param}", using the default`);
+  }
+
+  return DEFAULT_MATCH_CONFIG;
+}
@@ -1,16 +1,25 @@
 /**
  * Enemy Entity
  * ==============
- * Represents a basic enemy character.
+ * Represents a basic enemy character - Blockhead by default. Other enemy
+ * characters (see Robot) extend it with their own config, animations and
+ * move table, and share the telegraphed attacks and AI control API.
  * Uses composition pattern to wrap a Phaser sprite.
  */
 
 import Phaser from 'phaser';
-import { InputManager } from '../systems/InputManager';
-import { HealthBar } from '../ui/HealthBar';
+import { Fighter, FighterAnimations, FighterConfig, FighterState } from './Fighter.ts';
+import { FighterControls } from '../systems/FighterControls.ts';
+import { MoveData, MoveTable } from '../combat/MoveData.ts';
+import { HurtboxTable } from '../combat/HurtboxData.ts';
+import { BLOCKHEAD_MOVES } from '../combat/moves/blockhead.ts';
+import { BLOCKHEAD_HURTBOXES } from '../combat/hurtboxes/blockhead.ts';
+
+/** Attacks the enemy telegraphs with a warning */
+export type EnemyAttack = 'punch' | 'sidekick' | 'throw' | 'blast';
 
 /** Enemy configuration */
-const CONFIG = {
+const CONFIG: FighterConfig & { ATTACK_WARNING_DURATION: number } = {
   // Frame dimensions (must match PreloadScene sprite sheet config)
   FRAME_WIDTH: 200,
   FRAME_HEIGHT: 400,
@@ -19,81 +28,105 @@ const CONFIG = {
   // Physics body size (in texture coordinates)
   BODY_WIDTH: 100,
   BODY_HEIGHT: 220,
+  // Character feet are near the bottom of the frame with some padding
+  CHAR_BOTTOM_PADDING: 30,
+  ORIGIN_Y: 1, // Origin at feet
   // Movement settings
   MOVE_SPEED: 250,
   ACCELERATION: 1200,
   DRAG: 800,
   JUMP_VELOCITY: -650,
+  MAX_JUMPS: 1, // Only jump from the ground
+  JUMP_BUFFER_TIME: 0,
   // Health system
   MAX_HEALTH: 300,
-  INVINCIBILITY_DURATION: 800, // ms (must be longer than longest yoyo attack animation)
-  KNOCKBACK_FORCE: 250, // pixels/second
+  // Guard system
+  GUARD_MAX: 80,
+  GUARD_REGEN_RATE: 12, // guard per second
+  GUARD_REGEN_DELAY: 1200, // ms
+  GUARD_BREAK_STUN: 1000, // ms
+  CHIP_DAMAGE_RATIO: 0.2,
+  BLOCK_PUSHBACK_RATIO: 0.5,
   // Attack warning system
   ATTACK_WARNING_DURATION: 500, // ms before attack executes
 };
 
-/** Enemy state for animation system */
-export enum EnemyState {
-  IDLE,
-  RUNNING,
-  JUMPING,
-  FALLING,
-  ATTACKING,
-  HURT,
-}
-
-export class Enemy {
-  private scene: Phaser.Scene;
-  private sprite: Phaser.Physics.Arcade.Sprite;
-  private inputManager: InputManager;
-  private currentState: EnemyState = EnemyState.IDLE;
-  private facingRight: boolean = false; // Start facing left (toward player)
+/** Boss Blockhead - tougher, and shrugs off the first hits of a combo */
+const BOSS_CONFIG: typeof CONFIG = {
+  ...CONFIG,
+  MAX_HEALTH: 450,
+  GUARD_MAX: 120,
+  ARMOR: { type: 'hit', hits: 2 },
+};
 
-  // Health system
-  private maxHealth: number = CONFIG.MAX_HEALTH;
-  private currentHealth: number = CONFIG.MAX_HEALTH;
-  private isInvincible: boolean = false;
-  private invincibilityTimer: number = 0;
-  private healthBar: HealthBar | null = null;
+/** What one kind of enemy fights with */
+export interface EnemyCharacter {
+  /** Shown on the results screen */
+  name: string;
+  /** Display pixels from the top of the frame to the head (HUD placement) */
+  headOffset: number;
+  config: FighterConfig;
+  /** Boss variant of the config */
+  bossConfig: FighterConfig;
+  animations: FighterAnimations;
+  moves: MoveTable;
+  hurtboxes: HurtboxTable;
+}
 
-  // Attack system
-  private currentAttackType: 'punch' | 'sidekick' | null = null;
+const BLOCKHEAD: EnemyCharacter = {
+  name: 'Blockhead',
+  headOffset: 110,
+  config: CONFIG,
+  bossConfig: BOSS_CONFIG,
+  animations: {
+    idle: 'enemy-idle',
+    run: 'enemy-running',
+    jump: 'enemy-idle', // No jump animation available
+    hurt: 'enemy-getting-punched',
+  },
+  moves: BLOCKHEAD_MOVES,
+  hurtboxes: BLOCKHEAD_HURTBOXES,
+};
 
+export class Enemy extends Fighter {
   // Attack warning system
   private warningContainer: Phaser.GameObjects.Container | null = null;
   private warningGraphics: Phaser.GameObjects.Graphics | null = null;
   private warningText: Phaser.GameObjects.Text | null = null;
-  private pendingAttack: 'punch' | 'sidekick' | null = null;
+  private pendingAttack: EnemyAttack | null = null;
   private warningTween: Phaser.Tweens.Tween | null = null;
   private attackExecuteTime: number = 0; // When the attack will execute (scene time)
 
-  // AI control system - allows programmatic control alongside keyboard
+  // AI control system - allows programmatic control alongside the control source
   private aiMovementDirection: -1 | 0 | 1 = 0; // -1 = left, 0 = none, 1 = right
   private aiJumpRequested: boolean = false;
+  private aiGuarding: boolean = false;
+  private aiThrowTechRequested: boolean = false;
+
+  private readonly character: EnemyCharacter;
   
   // Distance-based movement tracking
   private targetX: number | null = null; // Target X position for moveLeftBy/moveRightBy
 
-  constructor(scene: Phaser.Scene, x: number, y: number, inputManager: InputManager) {
-    this.scene = scene;
-    this.inputManager = inputManager;
-
-    // Create animations
-    this.createAnimations();
-
-    // Create the physics sprite
-    this.sprite = scene.physics.add.sprite(x, y, 'enemy-idle');
-    this.sprite.setOrigin(0.5, 1); // Origin at feet
-    this.sprite.setScale(CONFIG.SCALE);
-
-    // Configure physics body
-    this.setupPhysicsBody();
+  /**
+   * @param boss - Boss variant: more health and guard, wears hit armor
+   * @param character - Config, animations and moves of the enemy (subclasses pass their own)
+   */
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    controls: FighterControls,
+    boss: boolean = false,
+    character: EnemyCharacter = BLOCKHEAD
+  ) {
+    // Start facing left (toward player)
+    super(scene, x, y, controls, boss ? character.bossConfig : character.config,
+      character.animations, character.moves, character.hurtboxes, false);
+    this.character = character;
 
     // Create attack warning indicator
     this.createWarningIndicator();
-
-    // Start with idle animation
-    this.sprite.play('enemy-idle');
   }
 
   /**
@@ -137,7 +170,7 @@ export class Enemy {
     this.warningContainer.add([this.warningGraphics, this.warningText]);
   }
 
-  private createAnimations(): void {
+  protected createAnimations(): void {
     // Only create animations if they don't already exist
     if (!this.scene.anims.exists('enemy-idle')) {
       // Idle animation - 3 frames, looping
@@ -213,51 +246,11 @@ export class Enemy {
 
   }
 
-  private setupPhysicsBody(): void {
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-
-    // Set physics body size
-    body.setSize(CONFIG.BODY_WIDTH, CONFIG.BODY_HEIGHT);
-
-    // Center the body horizontally, position at bottom of frame (where character is)
-    const offsetX = (CONFIG.FRAME_WIDTH - CONFIG.BODY_WIDTH) / 2;
-    // Character feet are near the bottom of the frame with some padding
-    const bottomPadding = 30; // Space below character's feet in the frame
-    const offsetY = CONFIG.FRAME_HEIGHT - CONFIG.BODY_HEIGHT - bottomPadding;
-    body.setOffset(offsetX, offsetY);
-
-    // Enable gravity and world bounds collision
-    body.setCollideWorldBounds(true);
-    body.setMaxVelocity(CONFIG.MOVE_SPEED, 800);
-    body.setDrag(CONFIG.DRAG, 0);
-  }
-
-  update(): void {
-    if (!this.scene.registry.get('matchStarted')) return;
-
-    const delta = this.scene.game.loop.delta;
-
-    // Update invincibility timer
-    if (this.invincibilityTimer > 0) {
-      this.invincibilityTimer -= delta;
-      if (this.invincibilityTimer <= 0) {
-        this.isInvincible = false;
-      }
-    }
+  protected updateTimers(delta: number): void {
+    super.updateTimers(delta);
 
     // Update warning indicator position to follow enemy
     this.updateWarningPosition();
-
-    // Don't update movement if dead
-    if (this.currentHealth <= 0) {
-      return;
-    }
-
-    this.handleAttack();
-    this.handleMovement();
-    this.handleJump();
-    this.updateState();
-    this.updateFacing();
   }
 
   /**
@@ -270,58 +263,51 @@ export class Enemy {
     }
   }
 
-  private handleAttack(): void {
+  protected handleActions(): void {
     // Don't allow attacks while already attacking, hurt, dead, or showing warning
-    if (this.currentState === EnemyState.ATTACKING || 
-        this.currentState === EnemyState.HURT || 
+    if (this.currentState === FighterState.ATTACKING || 
+        this.currentState === FighterState.HURT || 
         this.currentHealth <= 0 ||
         this.isShowingWarning()) {
       return;
     }
 
-    if (this.inputManager.isEnemyPunchPressed()) {
+    if (this.controls.isPunchPressed()) {
       this.punch(); // Use the public method which includes warning
-    } else if (this.inputManager.isEnemySidekickPressed()) {
+    } else if (this.controls.isSidekickPressed()) {
       this.sidekick(); // Use the public method which includes warning
+    } else if (this.isThrowRequested()) {
+      this.throw(); // Use the public method which includes warning
     }
   }
 
   private performPunch(): void {
-    this.currentState = EnemyState.ATTACKING;
-    this.currentAttackType = 'punch';
-    this.sprite.play('enemy-punch');
+    this.startMove('punch', () => this.returnToIdle());
     this.scene.sound.play('punch-sfx', { volume: 0.5 });
-    this.sprite.once('animationcomplete', () => {
-      this.currentAttackType = null;
-      this.currentState = EnemyState.IDLE;
-      this.sprite.play('enemy-idle');
-    });
   }
 
   private performSidekick(): void {
-    this.currentState = EnemyState.ATTACKING;
     // Always use regular sidekick now
-    this.currentAttackType = 'sidekick';
-    this.sprite.play('enemy-sidekick');
+    this.startMove('sidekick', () => this.returnToIdle());
 
     this.scene.sound.play('kick-sfx', { volume: 0.5 });
-    this.sprite.once('animationcomplete', () => {
-      this.currentAttackType = null;
-      this.currentState = EnemyState.IDLE;
-      this.sprite.play('enemy-idle');
-    });
   }
 
-  private handleMovement(): void {
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+  private performBlast(): void {
+    this.startMove('blast', () => this.returnToIdle());
+    this.scene.sound.play('punch-sfx', { volume: 0.3 });
+  }
 
-    // Don't move while attacking on the ground (except jump sidekick), or while hurt
-    if (this.currentState === EnemyState.HURT ||
-        this.currentState === EnemyState.ATTACKING) {
-      body.setAccelerationX(0);
-      return;
-    }
+  private performThrow(): void {
+    this.startMove('throw', () => this.returnToIdle());
+    this.scene.sound.play('punch-sfx', { volume: 0.4 });
+  }
 
+  /**
+   * Combine the control source with AI-driven movement
+   * Stops automatically once a moveLeftBy/moveRightBy target is reached
+   */
+  protected getMovementIntent(): -1 | 0 | 1 {
     // Check if we've reached the target position (for distance-based movement)
     if (this.targetX !== null) {
       const reachedTarget = 
@@ -332,96 +318,39 @@ export class Enemy {
         // Stop movement
         this.aiMovementDirection = 0;
         this.targetX = null;
-        body.setAccelerationX(0);
-        body.setVelocityX(0); // Stop immediately when target reached
-        return;
+        this.getBody().setVelocityX(0); // Stop immediately when target reached
+        return 0;
       }
     }
 
-    // Check both keyboard input and AI control
-    const movingLeft = this.inputManager.isEnemyMovingLeft() || this.aiMovementDirection === -1;
-    const movingRight = this.inputManager.isEnemyMovingRight() || this.aiMovementDirection === 1;
-
-    if (movingLeft) {
-      body.setAccelerationX(-CONFIG.ACCELERATION);
-      this.facingRight = false;
-    } else if (movingRight) {
-      body.setAccelerationX(CONFIG.ACCELERATION);
-      this.facingRight = true;
-    } else {
-      body.setAccelerationX(0);
-    }
+    // Check both the control source and AI control
+    if (this.controls.isMovingLeft() || this.aiMovementDirection === -1) return -1;
+    if (this.controls.isMovingRight() || this.aiMovementDirection === 1) return 1;
+    return 0;
   }
 
-  private handleJump(): void {
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-
-    // Check both keyboard input and AI control
-    const jumpRequested = this.inputManager.isEnemyJumpPressed() || this.aiJumpRequested;
+  /** Combine the control source with one-shot AI jump requests */
+  protected isJumpRequested(): boolean {
+    const jumpRequested = this.controls.isJumpPressed() || this.aiJumpRequested;
     
     // Consume the AI jump request (one-shot)
-    if (this.aiJumpRequested) {
-      this.aiJumpRequested = false;
-    }
+    this.aiJumpRequested = false;
 
-    // Only allow jump when on ground
-    if (jumpRequested && body.blocked.down) {
-      body.setVelocityY(CONFIG.JUMP_VELOCITY);
-    }
+    return jumpRequested;
   }
 
-  private updateState(): void {
-    // Don't change state while attacking or hurt
-    if (this.currentState === EnemyState.ATTACKING || 
-        this.currentState === EnemyState.HURT) {
-      return;
-    }
-
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-    const previousState = this.currentState;
-
-    if (!body.blocked.down) {
-      // In the air
-      this.currentState = body.velocity.y < 0 ? EnemyState.JUMPING : EnemyState.FALLING;
-    } else {
-      // On ground
-      this.currentState = Math.abs(body.velocity.x) > 10 ? EnemyState.RUNNING : EnemyState.IDLE;
-    }
-
-    // Play animation when state changes
-    if (this.currentState !== previousState) {
-      this.playAnimationForState();
-    }
+  protected isGuardRequested(): boolean {
+    return this.controls.isGuardPressed() || this.aiGuarding;
   }
 
-  private playAnimationForState(): void {
-    switch (this.currentState) {
-      case EnemyState.IDLE:
-        if (this.sprite.anims.currentAnim?.key !== 'enemy-idle') {
-          this.sprite.play('enemy-idle');
-        }
-        break;
-      case EnemyState.RUNNING:
-        if (this.sprite.anims.currentAnim?.key !== 'enemy-running') {
-          this.sprite.play('enemy-running');
-        }
-        break;
-      case EnemyState.JUMPING:
-      case EnemyState.FALLING:
-        // Use idle animation for jumping (no jump animation available)
-        if (this.sprite.anims.currentAnim?.key !== 'enemy-idle') {
-          this.sprite.play('enemy-idle');
-        }
-        break;
-    }
-  }
+  /** Combine the control source with one-shot AI throw tech requests */
+  protected isThrowRequested(): boolean {
+    const throwRequested = this.controls.isThrowPressed() || this.aiThrowTechRequested;
 
-  private updateFacing(): void {
-    // Sprites face right by default, so flip when facing left
-    const shouldFlip = !this.facingRight;
-    if (this.sprite.flipX !== shouldFlip) {
-      this.sprite.setFlipX(shouldFlip);
-    }
+    // Consume the AI tech request (one-shot)
+    this.aiThrowTechRequested = false;
+
+    return throwRequested;
   }
 
   /**
@@ -429,7 +358,7 @@ export class Enemy {
    * @param attackType - The type of attack being prepared
    * @param callback - Function to call when warning completes (executes attack)
    */
-  private showAttackWarning(attackType: 'punch' | 'sidekick', callback: () => void): void {
+  private showAttackWarning(attackType: EnemyAttack, callback: () => void): void {
     if (!this.warningContainer || !this.warningGraphics) {
       // If warning system not available, execute attack immediately
       callback();
@@ -484,6 +413,18 @@ export class Enemy {
     });
   }
 
+  /** A new round cancels any telegraphed attack and AI requests */
+  resetForRound(x: number, y: number, facingRight: boolean): void {
+    this.hideAttackWarning();
+    this.sprite.clearTint();
+    this.aiMovementDirection = 0;
+    this.aiJumpRequested = false;
+    this.aiGuarding = false;
+    this.aiThrowTechRequested = false;
+    this.targetX = null;
+    super.resetForRound(x, y, facingRight);
+  }
+
   /**
    * Hide the attack warning indicator
    */
@@ -518,177 +459,35 @@ export class Enemy {
     return Math.max(0, this.attackExecuteTime - this.scene.time.now);
   }
 
-  /** Get the underlying Phaser sprite for physics/collisions */
-  getSprite(): Phaser.Physics.Arcade.Sprite {
-    return this.sprite;
-  }
-
-  getState(): EnemyState {
-    return this.currentState;
-  }
-
-  /** Set which direction the enemy faces */
-  setFacing(right: boolean): void {
-    this.facingRight = right;
-    this.sprite.setFlipX(!right); // Sprite faces right by default, flip when facing left
-  }
-
   /**
-   * Take damage from an attack
-   * @param amount - Damage amount
-   * @param attackerX - X position of attacker for knockback direction
-   * @param attackType - Optional attack type to determine reaction animation
+   * Time relative to the current attack executing (in ms, negative while the warning shows)
+   * Returns null when no attack is pending or playing
    */
-  takeDamage(amount: number, attackerX: number, attackType?: string): void {
-    // Don't take damage if invincible or dead
-    if (this.isInvincible || this.currentHealth <= 0) {
-      return;
-    }
-
-    this.currentHealth = Math.max(0, this.currentHealth - amount);
-
-    // Update health bar
-    if (this.healthBar) {
-      this.healthBar.updateHealth(this.currentHealth);
-    }
-
-    // Apply knockback
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-    const knockbackDirection = this.sprite.x < attackerX ? -1 : 1;
-    body.setVelocityX(knockbackDirection * CONFIG.KNOCKBACK_FORCE);
-
-    // Start invincibility
-    this.isInvincible = true;
-    this.invincibilityTimer = CONFIG.INVINCIBILITY_DURATION;
-
-    // Play hurt animation if we know the attack type
-    if (attackType) {
-      this.triggerHurt();
-    }
-
-    // Check if dead
-    if (this.currentHealth <= 0) {
-      // Freeze in place
-      body.setVelocity(0, 0);
-      body.setAcceleration(0, 0);
+  public getAttackTimingOffset(): number | null {
+    if (!this.isShowingWarning() && this.currentState !== FighterState.ATTACKING) {
+      return null;
     }
+    return this.scene.time.now - this.attackExecuteTime;
   }
 
   /**
-   * Trigger the hurt/getting punched animation (face hit)
+   * Get the move being telegraphed or performed
+   * Returns null when no attack is pending or playing
    */
-  public triggerHurt(): void {
-    // Don't interrupt if already hurt
-    if (this.currentState === EnemyState.HURT) {
-      return;
+  public getTelegraphedMove(): MoveData | null {
+    if (this.pendingAttack) {
+      return this.moves[this.pendingAttack] ?? null;
     }
-
-    this.currentState = EnemyState.HURT;
-    this.currentAttackType = null; // Cancel any current attack
-    this.sprite.play('enemy-getting-punched');
-
-    // Return to idle after animation completes
-    this.sprite.once('animationcomplete', () => {
-      this.currentState = EnemyState.IDLE;
-      this.sprite.play('enemy-idle');
-    });
-  }
-
-  /**
-   * Set health bar reference
-   */
-  setHealthBar(healthBar: HealthBar): void {
-    this.healthBar = healthBar;
+    return this.getCurrentMove();
   }
 
   /**
-   * Get current health
+   * Stagger the enemy (e.g. when parried) - cancels the pending or current attack
+   * @param duration - Time left open (ms)
    */
-  getCurrentHealth(): number {
-    return this.currentHealth;
-  }
-
-  /**
-   * Get max health
-   */
-  getMaxHealth(): number {
-    return this.maxHealth;
-  }
-
-  /**
-   * Check if enemy is dead
-   */
-  isDead(): boolean {
-    return this.currentHealth <= 0;
-  }
-
-  /**
-   * Check if enemy is invincible
-   */
-  getIsInvincible(): boolean {
-    return this.isInvincible;
-  }
-
-  /**
-   * Get the current attack hitbox bounds if attacking
-   * Returns null if not attacking or not in hit frame
-   */
-  getAttackHitbox(): Phaser.Geom.Rectangle | null {
-    if (this.currentState !== EnemyState.ATTACKING || !this.currentAttackType) {
-      return null;
-    }
-
-    const anim = this.sprite.anims.currentAnim;
-    if (!anim) return null;
-
-    // Get current frame from sprite's animation manager
-    const animsManager = this.sprite.anims as any;
-    const currentFrame = animsManager.currentFrame;
-    if (!currentFrame) return null;
-
-    // Punch hitbox - check if we're on the punch_extend frame (wide frame, frames 4+5 combined)
-    if (anim.key === 'enemy-punch' && currentFrame.frame.name === 'punch_extend') {
-      const hitboxWidth = 100; // Wider hitbox for the extended punch
-      const hitboxHeight = 60;
-      const offsetX = this.facingRight ? 70 : -70; // Further reach for extended punch
-      const offsetY = -30; // Slightly above center
-
-      // Create hitbox rectangle
-      const hitboxX = this.sprite.x + offsetX - hitboxWidth / 2;
-      const hitboxY = this.sprite.y + offsetY - hitboxHeight / 2;
-
-      return new Phaser.Geom.Rectangle(hitboxX, hitboxY, hitboxWidth, hitboxHeight);
-    }
-
-    // Sidekick hitbox - check if we're on the kick_extend or kick_follow frames (wide frames)
-    if (anim.key === 'enemy-sidekick' && 
-        (currentFrame.frame.name === 'kick_extend' || currentFrame.frame.name === 'kick_follow')) {
-      const hitboxWidth = 120; // Wider hitbox for the extended kick
-      const hitboxHeight = 80;
-      const offsetX = this.facingRight ? 90 : -90; // Further reach for extended kick
-      const offsetY = -40; // Slightly above center
-
-      // Create hitbox rectangle
-      const hitboxX = this.sprite.x + offsetX - hitboxWidth / 2;
-      const hitboxY = this.sprite.y + offsetY - hitboxHeight / 2;
-
-      return new Phaser.Geom.Rectangle(hitboxX, hitboxY, hitboxWidth, hitboxHeight);
-    }
-
-    return null;
-  }
-
-  /**
-   * Get damage value for current attack
-   */
-  getAttackDamage(): number {
-    if (this.currentAttackType === 'punch') {
-      return 10; // Same as player punch damage
-    }
-    if (this.currentAttackType === 'sidekick') {
-      return 15; // Sidekick does more damage than punch
-    }
-    return 0;
+  public stagger(duration: number): void {
+    this.hideAttackWarning();
+    this.triggerHurt(undefined, duration);
   }
 
   // ============================================
@@ -700,12 +499,30 @@ export class Enemy {
    * @returns true if attack is allowed
    */
   public canAttack(): boolean {
-    return this.currentState !== EnemyState.ATTACKING &&
-           this.currentState !== EnemyState.HURT &&
+    return this.currentState !== FighterState.ATTACKING &&
+           !this.isStunned() &&
+           !this.isInHitstop() &&
            this.currentHealth > 0 &&
            !this.isShowingWarning();
   }
 
+  /** Get the character's name */
+  public getName(): string {
+    return this.character.name;
+  }
+
+  /** Get the display pixels from the top of the frame to the head */
+  public getHeadOffset(): number {
+    return this.character.headOffset;
+  }
+
+  /**
+   * Check if the move table has an attack (not every enemy has every move)
+   */
+  public hasAttack(attack: EnemyAttack): boolean {
+    return attack in this.moves;
+  }
+
   /**
    * Check if the enemy can currently jump
    * @returns true if jump is allowed (on ground and not dead)
@@ -721,7 +538,7 @@ export class Enemy {
    * @returns true if punch was triggered, false if not allowed
    */
   public punch(): boolean {
-    if (!this.canAttack() || this.isShowingWarning()) {
+    if (!this.canAttack() || this.isShowingWarning() || !this.hasAttack('punch')) {
       return false;
     }
     
@@ -742,7 +559,7 @@ export class Enemy {
    * @returns true if sidekick was triggered, false if not allowed
    */
   public sidekick(): boolean {
-    if (!this.canAttack() || this.isShowingWarning()) {
+    if (!this.canAttack() || this.isShowingWarning() || !this.hasAttack('sidekick')) {
       return false;
     }
     
@@ -757,6 +574,58 @@ export class Enemy {
     return true;
   }
 
+  /**
+   * Trigger a throw (callable by AI or code)
+   * Short range and unblockable - shows the same warning before the grab
+   * @returns true if throw was triggered, false if not allowed
+   */
+  public throw(): boolean {
+    if (!this.canAttack() || this.isShowingWarning() || !this.hasAttack('throw') || !this.isOnGround()) {
+      return false;
+    }
+
+    // Show warning, then execute throw after delay
+    this.showAttackWarning('throw', () => {
+      // Double-check we can still attack after the warning
+      if (this.canAttack() && this.isOnGround()) {
+        this.performThrow();
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Fire an energy blast (callable by AI or code)
+   * Ranged projectile - shows the same warning before firing
+   * @returns true if blast was triggered, false if not allowed
+   */
+  public blast(): boolean {
+    if (!this.canAttack() || this.isShowingWarning() || !this.hasAttack('blast')) {
+      return false;
+    }
+
+    // Show warning, then fire after delay
+    this.showAttackWarning('blast', () => {
+      // Double-check we can still attack after the warning
+      if (this.canAttack()) {
+        this.performBlast();
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Try to break out of a throw (for AI control)
+   * Only has an effect while grabbed
+   */
+  public requestThrowTech(): void {
+    if (this.currentState === FighterState.GRABBED) {
+      this.aiThrowTechRequested = true;
+    }
+  }
+
   /**
    * Trigger a jump (callable by AI or code)
    * @returns true if jump was triggered, false if not allowed
@@ -793,6 +662,28 @@ export class Enemy {
     this.targetX = null;
   }
 
+  /**
+   * Raise guard (for AI control)
+   * Guard stays up until stopGuarding() is called
+   */
+  public startGuarding(): void {
+    this.aiGuarding = true;
+  }
+
+  /**
+   * Drop guard (for AI control)
+   */
+  public stopGuarding(): void {
+    this.aiGuarding = false;
+  }
+
+  /**
+   * Check if the enemy is holding guard up
+   */
+  public isGuarding(): boolean {
+    return this.currentState === FighterState.GUARDING;
+  }
+
   /**
    * Move left by a specific number of pixels
    * Movement will automatically stop when target is reached
@@ -825,27 +716,6 @@ export class Enemy {
    * Check if enemy is currently attacking
    */
   public isAttacking(): boolean {
-    return this.currentState === EnemyState.ATTACKING;
-  }
-
-  /**
-   * Get enemy's current X position
-   */
-  public getX(): number {
-    return this.sprite.x;
-  }
-
-  /**
-   * Get enemy's current Y position
-   */
-  public getY(): number {
-    return this.sprite.y;
-  }
-
-  /**
-   * Check if enemy is facing right
-   */
-  public isFacingRight(): boolean {
-    return this.facingRight;
+    return this.currentState === FighterState.ATTACKING;
   }
 }
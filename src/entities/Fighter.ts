@@ -0,0 +1,1321 @@
+/**
+ * Fighter Entity
+ * ===============
+ * Shared base for every character that can fight (Juan, Blockhead, ...).
+ * Uses composition pattern to wrap a Phaser sprite, and reads its intents
+ * from a pluggable FighterControls source (keyboard, FSM, LLM...).
+ *
+ * Owns health, guard, super meter, dodge invincibility, knockback, hitstop/hitstun/blockstun,
+ * armor, juggles/knockdowns, facing and the basic IDLE/RUNNING/JUMPING/FALLING state machine. Attacks are played from
+ * the character's move table; subclasses add their animations and decide
+ * which move to perform.
+ */
+
+import Phaser from 'phaser';
+import { FighterControls } from '../systems/FighterControls.ts';
+import { HealthBar } from '../ui/HealthBar.ts';
+import { GuardMeter } from '../ui/GuardMeter.ts';
+import { SuperMeterBar } from '../ui/SuperMeterBar.ts';
+import { HitboxRect, MoveData, MoveTable, getActiveFrame, getHitIndex, getTotalFrames } from '../combat/MoveData.ts';
+import { AttackInstance } from '../combat/AttackInstance.ts';
+import { HurtboxRegion, HurtboxTable, getHurtboxes } from '../combat/HurtboxData.ts';
+import { SUPER_METER } from '../combat/SuperMeter.ts';
+import { JUGGLE, KNOCKDOWN } from '../combat/Knockdown.ts';
+import { THROW } from '../combat/Throw.ts';
+import { ARMOR, ArmorType, BodyArmor } from '../combat/Armor.ts';
+
+/** Physics, sizing and health configuration for a fighter */
+export interface FighterConfig {
+  // Sprite frame dimensions (in texture coordinates)
+  FRAME_WIDTH: number;
+  FRAME_HEIGHT: number;
+  SCALE: number;
+  // Physics body size (in texture coordinates)
+  BODY_WIDTH: number;
+  BODY_HEIGHT: number;
+  // Empty space below the character's feet in the frame
+  CHAR_BOTTOM_PADDING: number;
+  // Sprite origin Y (1 = bottom of frame)
+  ORIGIN_Y: number;
+  // Movement
+  MOVE_SPEED: number;
+  ACCELERATION: number;
+  DRAG: number;
+  JUMP_VELOCITY: number;
+  MAX_JUMPS: number;
+  JUMP_BUFFER_TIME: number; // ms to buffer jump input (0 = no buffer)
+  // Health system
+  MAX_HEALTH: number;
+  // Guard system
+  GUARD_MAX: number;
+  GUARD_REGEN_RATE: number; // guard per second
+  GUARD_REGEN_DELAY: number; // ms after a block before guard regenerates
+  GUARD_BREAK_STUN: number; // ms left open after a guard break
+  CHIP_DAMAGE_RATIO: number; // Fraction of damage taken through guard
+  BLOCK_PUSHBACK_RATIO: number; // Fraction of knockback applied on block
+  // Armor worn at all times (bosses, heavy bruisers)
+  ARMOR?: BodyArmor;
+}
+
+/** Animation keys used by the shared state machine */
+export interface FighterAnimations {
+  idle: string;
+  run: string;
+  jump: string; // Used for both jumping and falling
+  hurt: string;
+  // Optional reaction per body region hit (falls back to hurt)
+  hurtByRegion?: Partial<Record<HurtboxRegion, string>>;
+  // Optional lying pose and get-up animations (fall back to tipping the sprite over)
+  knockdown?: string;
+  wakeup?: string;
+  // Optional faster get-up, performed by pressing jump while knocked down
+  quickRise?: string;
+}
+
+/** A hurtbox in world space */
+export interface WorldHurtbox {
+  region: HurtboxRegion;
+  rect: Phaser.Geom.Rectangle;
+}
+
+/** Payload of GameEvents.HIT, emitted when an attack connects (hit or blocked) */
+export interface HitEvent {
+  attacker: Fighter;
+  defender: Fighter;
+  move: MoveData;
+  /** Health the defender actually lost (chip damage when blocked) */
+  damage: number;
+  blocked: boolean;
+  /** Hits in the attacker's combo so far (0 when blocked) */
+  comboHits: number;
+}
+
+/** Payload of GameEvents.WHIFF, emitted when an attack ends without connecting */
+export interface WhiffEvent {
+  attacker: Fighter;
+  move: MoveData;
+}
+
+/** Fighter state for animation system */
+export enum FighterState {
+  IDLE,
+  RUNNING,
+  JUMPING,
+  FALLING,
+  ATTACKING,
+  HURT,
+  DEAD,
+  DODGING,
+  BLOCKSTUN,
+  GUARDING,
+  JUGGLE,    // Launched, airborne until landing
+  KNOCKDOWN, // Lying on the ground
+  WAKEUP,    // Getting back up (invulnerable)
+  GRABBED,   // Held by a throw, can still tech out
+}
+
+/** A throw holding this fighter during the tech window */
+interface GrabHold {
+  attacker: Fighter;
+  attack: AttackInstance;
+  timer: number; // ms left to tech
+  onThrown: () => void;
+}
+
+/** Guard shield visual */
+const GUARD_SHIELD = {
+  WIDTH: 30,
+  COLOR: 0x66ccff,
+  ALPHA: 0.25,
+  STROKE_COLOR: 0x99ddff,
+  STROKE_ALPHA: 0.8,
+};
+
+export abstract class Fighter {
+  protected scene: Phaser.Scene;
+  protected sprite: Phaser.Physics.Arcade.Sprite;
+  protected controls: FighterControls;
+  protected readonly config: FighterConfig;
+  protected readonly animations: FighterAnimations;
+  protected readonly moves: MoveTable;
+  protected readonly hurtboxes: HurtboxTable;
+  protected currentState: FighterState = FighterState.IDLE;
+  protected facingRight: boolean;
+
+  // Jump system
+  protected jumpsRemaining: number;
+  protected jumpBufferTimer: number = 0;
+
+  // Health system
+  protected maxHealth: number;
+  protected currentHealth: number;
+  protected isInvincible: boolean = false;
+  protected invincibilityTimer: number = 0;
+  protected healthBar: HealthBar | null = null;
+
+  // Guard system
+  protected guard: number;
+  private guardRegenTimer: number = 0;
+  private guardMeter: GuardMeter | null = null;
+  private guardShield: Phaser.GameObjects.Ellipse;
+
+  // Super meter (see SUPER_METER)
+  protected superMeter: number = 0;
+  private superMeterBar: SuperMeterBar | null = null;
+
+  // Combat feel
+  protected stunTimer: number = 0; // ms left in hitstun/blockstun
+  private hitstopFrames: number = 0; // Frames left frozen on impact
+
+  // Juggle & knockdown (see JUGGLE/KNOCKDOWN)
+  private juggleHits: number = 0;
+  private hasBounced: boolean = false;
+  private downTimer: number = 0; // ms airborne while juggled, ms left lying while knocked down
+  private poseTween: Phaser.Tweens.Tween | null = null; // Tip-over or get-up (no knockdown animations)
+
+  // Armor (see ARMOR)
+  private armorHits: number = 0; // Hits absorbed since the last interruption or new move
+  private armorFlash: Phaser.Time.TimerEvent | null = null;
+  private armorFlashTint: number | null = null; // Tint the flash covers
+
+  // Throw currently holding this fighter
+  private grabHold: GrabHold | null = null;
+  private holdingThrow: boolean = false; // Attacker side: frozen on the grab frame
+
+  // The attack being performed (move + targets it already hit)
+  protected currentAttack: AttackInstance | null = null;
+
+  // Completion callback of the current one-shot animation (attack, dodge, hurt)
+  private actionCompleteHandler: (() => void) | null = null;
+
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    controls: FighterControls,
+    config: FighterConfig,
+    animations: FighterAnimations,
+    moves: MoveTable,
+    hurtboxes: HurtboxTable,
+    facingRight: boolean
+  ) {
+    this.scene = scene;
+    this.controls = controls;
+    this.config = config;
+    this.animations = animations;
+    this.moves = moves;
+    this.hurtboxes = hurtboxes;
+    this.facingRight = facingRight;
+    this.jumpsRemaining = config.MAX_JUMPS;
+    this.maxHealth = config.MAX_HEALTH;
+    this.currentHealth = config.MAX_HEALTH;
+    this.guard = config.GUARD_MAX;
+
+    // Create animations
+    this.createAnimations();
+    this.validateMoves();
+
+    // Create the physics sprite (origin at the character's feet)
+    this.sprite = scene.physics.add.sprite(x, y, animations.idle);
+    this.sprite.setOrigin(0.5, config.ORIGIN_Y);
+    this.sprite.setScale(config.SCALE);
+    this.sprite.setFlipX(!facingRight); // Sprites face right by default
+
+    // Configure physics body
+    this.setupPhysicsBody();
+
+    // Shield shown in front of the fighter while guarding, sized to the standing hurtboxes
+    const standing = hurtboxes.default;
+    const top = Math.min(...standing.map((box) => box.y - box.height / 2));
+    const bottom = Math.max(...standing.map((box) => box.y + box.height / 2));
+    this.guardShield = scene.add.ellipse(0, 0, GUARD_SHIELD.WIDTH, bottom - top, GUARD_SHIELD.COLOR, GUARD_SHIELD.ALPHA);
+    this.guardShield.setStrokeStyle(2, GUARD_SHIELD.STROKE_COLOR, GUARD_SHIELD.STROKE_ALPHA);
+    this.guardShield.setData('offsetY', (top + bottom) / 2);
+    this.guardShield.setVisible(false);
+
+    // A single listener dispatches to whichever action is currently playing,
+    // so an interrupted action never fires its completion later on
+    this.sprite.on(Phaser.Animations.Events.ANIMATION_COMPLETE, () => {
+      const handler = this.actionCompleteHandler;
+      this.actionCompleteHandler = null;
+      handler?.();
+    });
+
+    // Start with idle animation
+    this.sprite.play(animations.idle);
+  }
+
+  /** Register this character's animations with the scene */
+  protected abstract createAnimations(): void;
+
+  /** Handle character-specific actions (attacks, dodges...) for this frame */
+  protected abstract handleActions(): void;
+
+  /** Warn about moves whose frame data doesn't match their animation */
+  private validateMoves(): void {
+    Object.entries(this.moves).forEach(([moveId, move]) => {
+      const anim = this.scene.anims.get(move.animation);
+      if (!anim) {
+        console.warn(`[Fighter] Move '${moveId}' uses unknown animation '${move.animation}'`);
+        return;
+      }
+      if (anim.frames.length !== getTotalFrames(move)) {
+        console.warn(`[Fighter] Move '${moveId}' declares ${getTotalFrames(move)} frames, animation has ${anim.frames.length}`);
+      }
+      if (move.hitboxes.length !== move.active) {
+        console.warn(`[Fighter] Move '${moveId}' has ${move.hitboxes.length} hitbox frames for ${move.active} active frames`);
+      }
+      if (move.armor && (move.armor.from > move.armor.to || move.armor.to >= getTotalFrames(move))) {
+        console.warn(`[Fighter] Move '${moveId}' has armor on frames ${move.armor.from}-${move.armor.to} outside the move`);
+      }
+    });
+  }
+
+  private setupPhysicsBody(): void {
+    const body = this.getBody();
+
+    // Set physics body size (in texture coordinates, scaled automatically)
+    body.setSize(this.config.BODY_WIDTH, this.config.BODY_HEIGHT);
+
+    // Center body horizontally, bottom of body at the character's feet
+    const offsetX = (this.config.FRAME_WIDTH - this.config.BODY_WIDTH) / 2;
+    const offsetY = this.config.FRAME_HEIGHT - this.config.CHAR_BOTTOM_PADDING - this.config.BODY_HEIGHT;
+    body.setOffset(offsetX, offsetY);
+
+    // Keep the fighter inside the game world horizontally
+    body.setCollideWorldBounds(true);
+    body.setMaxVelocity(this.config.MOVE_SPEED, 800);
+    body.setDrag(this.config.DRAG, 0);
+  }
+
+  update(): void {
+    if (!this.scene.registry.get('matchStarted')) return;
+
+    // Frozen on impact: no timers, input or physics this frame
+    if (this.hitstopFrames > 0) {
+      this.hitstopFrames--;
+      if (this.hitstopFrames === 0) {
+        this.endHitstop();
+      }
+      return;
+    }
+
+    const delta = this.scene.game.loop.delta;
+    this.updateTimers(delta);
+
+    // Don't update movement if dead
+    if (this.isDead()) {
+      return;
+    }
+
+    // Stunned fighters can't act until the stun runs out
+    if (!this.isStunned()) {
+      this.updateGuard();
+      if (this.currentState !== FighterState.GUARDING) {
+        this.handleActions();
+      }
+    } else if (this.currentState === FighterState.GRABBED) {
+      this.updateGrab(delta);
+    } else if (this.currentState === FighterState.KNOCKDOWN && this.animations.quickRise && this.isJumpRequested()) {
+      this.wakeUp(true);
+    }
+    this.handleMovement();
+    if (!this.isStunned()) {
+      this.handleJump(delta);
+    }
+    this.updateState();
+    this.updateFacing();
+    this.updateGuardShield();
+  }
+
+  /** Advance per-frame timers (runs even while dead) */
+  protected updateTimers(delta: number): void {
+    if (this.invincibilityTimer > 0) {
+      this.invincibilityTimer -= delta;
+      if (this.invincibilityTimer <= 0) {
+        this.isInvincible = false;
+      }
+    }
+
+    // Guard regenerates after a short pause without blocking
+    if (this.guardRegenTimer > 0) {
+      this.guardRegenTimer -= delta;
+    } else if (this.guard < this.config.GUARD_MAX && this.currentState !== FighterState.BLOCKSTUN) {
+      this.setGuard(this.guard + this.config.GUARD_REGEN_RATE * delta / 1000);
+    }
+
+    // Hitstun/blockstun end on their timer, not when the animation completes
+    if (this.stunTimer > 0) {
+      this.stunTimer -= delta;
+      if (this.stunTimer <= 0 && (this.currentState === FighterState.HURT || this.currentState === FighterState.BLOCKSTUN)) {
+        this.returnToIdle();
+      }
+    }
+
+    this.updateKnockdown(delta);
+  }
+
+  /** True while in hitstun, blockstun, juggled, knocked down, waking up or grabbed */
+  protected isStunned(): boolean {
+    return this.currentState === FighterState.HURT ||
+      this.currentState === FighterState.BLOCKSTUN ||
+      this.currentState === FighterState.JUGGLE ||
+      this.currentState === FighterState.KNOCKDOWN ||
+      this.currentState === FighterState.WAKEUP ||
+      this.currentState === FighterState.GRABBED;
+  }
+
+  /** True while reeling from hits (hitstun or juggled) - combos continue until this ends */
+  isInHitstun(): boolean {
+    return this.currentState === FighterState.HURT || this.currentState === FighterState.JUGGLE;
+  }
+
+  /** True while an animation-driven state keeps the fighter planted */
+  protected isActionLocked(): boolean {
+    return this.currentState === FighterState.ATTACKING ||
+      this.currentState === FighterState.HURT ||
+      this.currentState === FighterState.DODGING ||
+      this.currentState === FighterState.BLOCKSTUN ||
+      this.currentState === FighterState.GUARDING ||
+      this.currentState === FighterState.JUGGLE ||
+      this.currentState === FighterState.KNOCKDOWN ||
+      this.currentState === FighterState.WAKEUP ||
+      this.currentState === FighterState.GRABBED ||
+      this.currentState === FighterState.DEAD;
+  }
+
+  /** Whether the control source is holding guard */
+  protected isGuardRequested(): boolean {
+    return this.controls.isGuardPressed();
+  }
+
+  /** Raise or drop guard (only from the ground, with guard left) */
+  private updateGuard(): void {
+    const wantsGuard = this.isGuardRequested() && this.isOnGround() && this.guard > 0;
+
+    if (wantsGuard && (this.currentState === FighterState.IDLE || this.currentState === FighterState.RUNNING)) {
+      this.currentState = FighterState.GUARDING;
+      this.playLoop(this.animations.idle);
+    } else if (!wantsGuard && this.currentState === FighterState.GUARDING) {
+      this.returnToIdle();
+    }
+  }
+
+  private updateGuardShield(): void {
+    const visible = this.currentState === FighterState.GUARDING || this.currentState === FighterState.BLOCKSTUN;
+    this.guardShield.setVisible(visible);
+    if (!visible) return;
+
+    const frontX = this.config.BODY_WIDTH * this.config.SCALE / 2 + GUARD_SHIELD.WIDTH / 2;
+    this.guardShield.setPosition(
+      this.sprite.x + (this.facingRight ? frontX : -frontX),
+      this.sprite.y + this.guardShield.getData('offsetY')
+    );
+  }
+
+  /**
+   * Horizontal movement intent for this frame
+   * @returns -1 for left, 0 for none, 1 for right
+   */
+  protected getMovementIntent(): -1 | 0 | 1 {
+    if (this.controls.isMovingLeft()) return -1;
+    if (this.controls.isMovingRight()) return 1;
+    return 0;
+  }
+
+  /** Whether a jump was requested this frame */
+  protected isJumpRequested(): boolean {
+    return this.controls.isJumpPressed();
+  }
+
+  /** Whether a throw was requested this frame (also techs out of a grab) */
+  protected isThrowRequested(): boolean {
+    return this.controls.isThrowPressed();
+  }
+
+  private handleMovement(): void {
+    const body = this.getBody();
+
+    // Don't move while attacking, hurt, or dodging (keeps fighter planted during animations)
+    if (this.isActionLocked()) {
+      body.setAccelerationX(0);
+      return;
+    }
+
+    const direction = this.getMovementIntent();
+    if (direction === -1) {
+      body.setAccelerationX(-this.config.ACCELERATION);
+      this.facingRight = false;
+    } else if (direction === 1) {
+      body.setAccelerationX(this.config.ACCELERATION);
+      this.facingRight = true;
+    } else {
+      body.setAccelerationX(0);
+    }
+  }
+
+  private handleJump(delta: number): void {
+    const body = this.getBody();
+
+    // Update jump buffer timer
+    if (this.jumpBufferTimer > 0) {
+      this.jumpBufferTimer -= delta;
+    }
+
+    // Buffer jump input when pressed
+    const jumpRequested = this.isJumpRequested();
+    if (jumpRequested) {
+      this.jumpBufferTimer = this.config.JUMP_BUFFER_TIME;
+    }
+
+    // Reset jumps when grounded
+    if (body.blocked.down) {
+      this.jumpsRemaining = this.config.MAX_JUMPS;
+    }
+
+    // Execute jump if requested (or buffered) and we have jumps remaining
+    if ((jumpRequested || this.jumpBufferTimer > 0) && this.jumpsRemaining > 0) {
+      body.setVelocityY(this.config.JUMP_VELOCITY);
+      this.jumpsRemaining--;
+      this.jumpBufferTimer = 0; // Consume the buffer
+    }
+  }
+
+  private updateState(): void {
+    // Don't change state while attacking, hurt, or dodging
+    if (this.isActionLocked()) {
+      return;
+    }
+
+    const body = this.getBody();
+    const previousState = this.currentState;
+
+    if (!body.blocked.down) {
+      this.currentState = body.velocity.y < 0 ? FighterState.JUMPING : FighterState.FALLING;
+    } else {
+      this.currentState = Math.abs(body.velocity.x) > 10 ? FighterState.RUNNING : FighterState.IDLE;
+    }
+
+    // Play animation when state changes
+    if (this.currentState !== previousState) {
+      this.playAnimationForState();
+    }
+  }
+
+  private playAnimationForState(): void {
+    switch (this.currentState) {
+      case FighterState.IDLE:
+        this.playLoop(this.animations.idle);
+        break;
+      case FighterState.RUNNING:
+        this.playLoop(this.animations.run);
+        break;
+      case FighterState.JUMPING:
+      case FighterState.FALLING:
+        this.playLoop(this.animations.jump);
+        break;
+    }
+  }
+
+  private playLoop(animKey: string): void {
+    if (this.sprite.anims.currentAnim?.key !== animKey) {
+      this.sprite.play(animKey);
+    }
+  }
+
+  private updateFacing(): void {
+    // Sprites face right by default, so flip when facing left
+    const shouldFlip = !this.facingRight;
+    if (this.sprite.flipX !== shouldFlip) {
+      this.sprite.setFlipX(shouldFlip);
+    }
+  }
+
+  /**
+   * Play a one-shot action animation (attack, dodge, hurt)
+   * Replaces the completion callback of any action it interrupts
+   */
+  protected playAction(animKey: string, onComplete?: () => void): void {
+    this.actionCompleteHandler = onComplete ?? null;
+    this.holdingThrow = false;
+    this.sprite.play(animKey);
+  }
+
+  /** Go back to idle after an action finishes */
+  protected returnToIdle(): void {
+    this.currentAttack = null;
+    this.holdingThrow = false;
+    this.sprite.setAngle(0);
+    this.currentState = FighterState.IDLE;
+    this.sprite.play(this.animations.idle);
+  }
+
+  /**
+   * Start an attack from the move table
+   * @param moveId - Key into this fighter's move table
+   * @param onComplete - Called when the move's animation finishes
+   */
+  protected startMove(moveId: string, onComplete: () => void): void {
+    const move = this.moves[moveId];
+    if (!move) {
+      console.warn(`[Fighter] Unknown move '${moveId}'`);
+      return;
+    }
+
+    this.currentState = FighterState.ATTACKING;
+    this.currentAttack = new AttackInstance(moveId, move);
+    this.armorHits = 0;
+    this.playAction(move.animation, onComplete);
+  }
+
+  /** Check if the move table has a ranged move (see MoveData.projectile) */
+  hasRangedMove(): boolean {
+    return Object.values(this.moves).some((move) => move.projectile);
+  }
+
+  /** Get the frame data of the attack being performed, if any */
+  getCurrentMove(): MoveData | null {
+    return this.getCurrentAttack()?.move ?? null;
+  }
+
+  /** Get the attack being performed, if any */
+  getCurrentAttack(): AttackInstance | null {
+    if (this.currentState !== FighterState.ATTACKING) {
+      return null;
+    }
+    return this.currentAttack;
+  }
+
+  /**
+   * Get the 0-based active frame of the current attack
+   * Returns -1 if not attacking or outside the active frames
+   */
+  private getCurrentActiveFrame(): number {
+    const move = this.getCurrentMove();
+    if (!move) return -1;
+
+    // Only the move's own animation counts (e.g. not once interrupted)
+    const anims = this.sprite.anims;
+    if (anims.currentAnim?.key !== move.animation || !anims.currentFrame) {
+      return -1;
+    }
+
+    return getActiveFrame(move, anims.currentFrame.index);
+  }
+
+  /**
+   * Get the hit event the current active frame belongs to
+   * Returns -1 if not attacking or outside the active frames
+   */
+  getActiveHitIndex(): number {
+    const move = this.getCurrentMove();
+    const activeFrame = this.getCurrentActiveFrame();
+    if (!move || activeFrame < 0) return -1;
+    return getHitIndex(move, activeFrame);
+  }
+
+  /**
+   * Get the current attack hitboxes in world space
+   * Returns an empty list if not attacking or outside the active frames
+   */
+  getAttackHitboxes(): Phaser.Geom.Rectangle[] {
+    const move = this.getCurrentMove();
+    const activeFrame = this.getCurrentActiveFrame();
+    if (!move || activeFrame < 0) return [];
+
+    return (move.hitboxes[activeFrame] ?? []).map((box) => this.createHitbox(box));
+  }
+
+  /**
+   * Get the hurtboxes for the current animation frame in world space
+   */
+  getHurtboxes(): WorldHurtbox[] {
+    const anims = this.sprite.anims;
+    const boxes = getHurtboxes(this.hurtboxes, anims.currentAnim?.key, anims.currentFrame?.index ?? 1);
+    return boxes.map((box) => ({ region: box.region, rect: this.createHitbox(box) }));
+  }
+
+  /**
+   * Trigger the hurt animation
+   * @param region - Body region that was hit (picks the matching reaction if any)
+   * @param hitstun - Time to stay in hitstun (ms, defaults to the reaction's length)
+   */
+  public triggerHurt(region?: HurtboxRegion, hitstun?: number): void {
+    const animKey = region ? this.animations.hurtByRegion?.[region] : undefined;
+    this.playHurt(animKey ?? this.animations.hurt, hitstun);
+  }
+
+  /**
+   * Enter hitstun with the given reaction animation
+   * A new hit during hitstun restarts the reaction and refreshes the timer
+   */
+  protected playHurt(animKey: string, hitstun?: number): void {
+    if (this.currentState === FighterState.DEAD) {
+      return;
+    }
+
+    this.releaseGrab(); // Hit out of a throw
+    this.armorHits = 0; // Interrupted - armor is back once recovered
+    this.currentState = FighterState.HURT;
+    this.currentAttack = null; // Cancel any current attack
+
+    // The reaction holds its last frame until hitstun runs out
+    this.playAction(animKey);
+    this.stunTimer = hitstun ?? this.scene.anims.get(animKey)?.duration ?? 0;
+  }
+
+  /**
+   * Enter blockstun (can't act, stays planted)
+   * @param blockstun - Time to stay in blockstun (ms)
+   */
+  public triggerBlockstun(blockstun: number): void {
+    if (this.currentState === FighterState.DEAD) {
+      return;
+    }
+
+    this.currentState = FighterState.BLOCKSTUN;
+    this.currentAttack = null;
+    this.playAction(this.animations.idle);
+    this.stunTimer = blockstun;
+  }
+
+  /**
+   * Freeze the fighter (animation and physics) for a number of frames
+   * Overlapping hitstops keep the longer one
+   */
+  applyHitstop(frames: number): void {
+    if (frames <= 0) return;
+
+    // Pause every time - a reaction started this frame resumes playback
+    this.sprite.anims.pause();
+    this.getBody().moves = false;
+    this.hitstopFrames = Math.max(this.hitstopFrames, frames);
+  }
+
+  private endHitstop(): void {
+    if (!this.holdingThrow) {
+      this.sprite.anims.resume();
+    }
+    this.getBody().moves = true;
+  }
+
+  /**
+   * Check if frozen by hitstop
+   */
+  isInHitstop(): boolean {
+    return this.hitstopFrames > 0;
+  }
+
+  /** Multiplier applied to this fighter's outgoing damage */
+  getDamageMultiplier(): number {
+    return 1;
+  }
+
+  /**
+   * Check if an incoming attack from attackerX would be blocked
+   * Guarding blocks from either side; holding away from the attacker also blocks
+   */
+  canBlock(attackerX: number): boolean {
+    if (!this.isOnGround() || this.guard <= 0) {
+      return false;
+    }
+    if (this.currentState === FighterState.GUARDING || this.currentState === FighterState.BLOCKSTUN) {
+      return true;
+    }
+    if (this.currentState !== FighterState.IDLE && this.currentState !== FighterState.RUNNING) {
+      return false;
+    }
+    return attackerX > this.sprite.x ? this.controls.isMovingLeft() : this.controls.isMovingRight();
+  }
+
+  /**
+   * Block an incoming attack if possible
+   * Takes chip damage and pushback, drains guard and enters blockstun
+   * (or is left open if the guard breaks)
+   * @returns true if the attack was blocked
+   */
+  blockHit(move: MoveData, attackerX: number): boolean {
+    if (this.currentHealth <= 0 || !this.canBlock(attackerX)) {
+      return false;
+    }
+
+    // Face the attacker
+    this.setFacing(attackerX > this.sprite.x);
+
+    // Chip damage
+    this.loseHealth(Math.round(move.damage * this.config.CHIP_DAMAGE_RATIO));
+    if (this.currentHealth <= 0) {
+      this.die();
+      return true;
+    }
+
+    // Slight pushback
+    const pushDirection = this.sprite.x < attackerX ? -1 : 1;
+    this.getBody().setVelocityX(pushDirection * move.knockback * this.config.BLOCK_PUSHBACK_RATIO);
+
+    // Drain guard
+    this.setGuard(this.guard - move.damage);
+    this.guardRegenTimer = this.config.GUARD_REGEN_DELAY;
+
+    if (this.guard <= 0) {
+      // Guard break - left open
+      this.guardMeter?.showBreak();
+      this.triggerHurt(undefined, this.config.GUARD_BREAK_STUN);
+    } else {
+      this.triggerBlockstun(move.blockstun);
+    }
+    return true;
+  }
+
+  private setGuard(value: number): void {
+    this.guard = Phaser.Math.Clamp(value, 0, this.config.GUARD_MAX);
+    this.guardMeter?.updateGuard(this.guard);
+  }
+
+  /**
+   * Take damage from an attack
+   * @param amount - Damage amount
+   * @param attackerX - X position of attacker for knockback direction
+   * @param knockback - Knockback velocity (pixels/second)
+   * @param region - Body region that was hit (for the reaction animation)
+   * @param hitstun - Time the defender stays in hitstun (ms)
+   * @param launch - Launcher velocity (juggles the defender, see MoveData.launch)
+   */
+  takeDamage(
+    amount: number,
+    attackerX: number,
+    knockback: number,
+    region?: HurtboxRegion,
+    hitstun?: number,
+    launch: number = 0
+  ): void {
+    // Don't take damage if invincible or dead
+    if (this.isInvincible || this.currentHealth <= 0) {
+      return;
+    }
+
+    this.loseHealth(amount);
+    this.gainSuper(amount * SUPER_METER.TAKE_RATIO);
+
+    // Armor soaks the hit - damage only, the current action carries on
+    if (this.currentHealth > 0 && this.absorbWithArmor()) {
+      return;
+    }
+
+    // Apply knockback
+    const body = this.getBody();
+    const knockbackDirection = this.sprite.x < attackerX ? -1 : 1;
+    body.setVelocityX(knockbackDirection * knockback);
+
+    // Launchers, and any hit on an airborne fighter, juggle; otherwise enter hitstun
+    if (launch > 0 || this.currentState === FighterState.JUGGLE || !this.isOnGround()) {
+      this.enterJuggle(launch);
+    } else {
+      this.triggerHurt(region, hitstun);
+    }
+
+    // Check if dead
+    if (this.currentHealth <= 0) {
+      this.die();
+    }
+  }
+
+  /**
+   * Get the armor protecting the fighter right now: the current move's
+   * armored frames first, then the fighter's own armor
+   * Reeling or grabbed fighters have no armor
+   */
+  private getActiveArmor(): BodyArmor | null {
+    if (this.isStunned() || this.currentState === FighterState.DEAD) {
+      return null;
+    }
+
+    const move = this.getCurrentMove();
+    const anims = this.sprite.anims;
+    if (move?.armor && anims.currentAnim?.key === move.animation && anims.currentFrame) {
+      const frame = anims.currentFrame.index - 1;
+      if (frame >= move.armor.from && frame <= move.armor.to) {
+        return move.armor;
+      }
+    }
+    return this.config.ARMOR ?? null;
+  }
+
+  /**
+   * Absorb a hit with armor, if any is left
+   * @returns true if the hit was absorbed (no hitstun, knockback or launch)
+   */
+  private absorbWithArmor(): boolean {
+    const armor = this.getActiveArmor();
+    if (!armor) return false;
+    if (armor.type === 'hit' && this.armorHits >= (armor.hits ?? 1)) return false;
+
+    this.armorHits++;
+    this.flashArmor(armor.type);
+    return true;
+  }
+
+  /** Flash the sprite when armor absorbs a hit, then restore its tint */
+  private flashArmor(type: ArmorType): void {
+    if (this.armorFlash) {
+      this.armorFlash.remove(false);
+    } else {
+      this.armorFlashTint = this.sprite.isTinted ? this.sprite.tintTopLeft : null;
+    }
+
+    this.sprite.setTintFill(type === 'super' ? ARMOR.SUPER_FLASH_COLOR : ARMOR.HIT_FLASH_COLOR);
+    this.armorFlash = this.scene.time.delayedCall(ARMOR.FLASH_DURATION, () => {
+      this.armorFlash = null;
+      if (this.armorFlashTint !== null) {
+        this.sprite.setTint(this.armorFlashTint);
+      } else {
+        this.sprite.clearTint();
+      }
+    });
+  }
+
+  /**
+   * Send the fighter airborne (or keep them there) in the juggle state
+   * Each juggle hit adds gravity, so combos can't keep them up forever
+   * @param launch - Upward velocity (a small pop if 0)
+   */
+  private enterJuggle(launch: number): void {
+    // Hurt reaction, held until landing instead of timing out
+    this.playHurt(this.animations.hurt);
+    this.currentState = FighterState.JUGGLE;
+    this.stunTimer = 0;
+
+    this.juggleHits++;
+    this.hasBounced = false;
+    this.downTimer = 0;
+
+    const body = this.getBody();
+    const extraGravity = Math.min(JUGGLE.MAX_EXTRA_GRAVITY, (this.juggleHits - 1) * JUGGLE.GRAVITY_SCALING);
+    body.setGravityY(this.scene.physics.world.gravity.y * extraGravity);
+    body.setVelocityY(-(launch > 0 ? launch : JUGGLE.POP_VELOCITY));
+  }
+
+  /** Juggle landing (bounce, then knockdown) and getting back up */
+  private updateKnockdown(delta: number): void {
+    if (this.currentState === FighterState.JUGGLE) {
+      this.downTimer += delta;
+      if (this.downTimer < JUGGLE.MIN_AIR_TIME || !this.isOnGround()) return;
+
+      const body = this.getBody();
+      if (!this.hasBounced) {
+        // First landing bounces back up (still juggled)
+        this.hasBounced = true;
+        this.downTimer = 0;
+        body.setVelocity(body.velocity.x * JUGGLE.BOUNCE_SPEED_RATIO, -JUGGLE.BOUNCE_VELOCITY);
+      } else {
+        this.knockDown();
+      }
+    } else if (this.currentState === FighterState.KNOCKDOWN) {
+      this.downTimer -= delta;
+      if (this.downTimer <= 0) {
+        this.wakeUp(false);
+      }
+    }
+  }
+
+  /** Land from a juggle - lie on the ground, out of reach */
+  private knockDown(): void {
+    this.currentState = FighterState.KNOCKDOWN;
+    this.juggleHits = 0;
+    this.downTimer = KNOCKDOWN.DURATION;
+    this.getBody().setGravityY(0);
+
+    // Can't be hit while lying down (until the wake-up ends)
+    this.isInvincible = true;
+    this.invincibilityTimer = Math.max(this.invincibilityTimer, KNOCKDOWN.DURATION);
+
+    if (this.animations.knockdown) {
+      this.playAction(this.animations.knockdown);
+    } else {
+      // Tip over backwards around the feet
+      this.poseTween?.stop();
+      this.poseTween = this.scene.tweens.add({
+        targets: this.sprite,
+        angle: this.facingRight ? -90 : 90,
+        duration: 150,
+        ease: 'Quad.easeIn',
+      });
+    }
+  }
+
+  /**
+   * Get back up, invulnerable until shortly after standing
+   * @param quick - Quick-rise (only for fighters with a quickRise animation)
+   */
+  private wakeUp(quick: boolean): void {
+    this.currentState = FighterState.WAKEUP;
+
+    const animKey = quick ? this.animations.quickRise : this.animations.wakeup;
+    let duration = KNOCKDOWN.WAKEUP_DURATION;
+    if (animKey) {
+      duration = this.scene.anims.get(animKey)?.duration ?? duration;
+      this.sprite.setAngle(0);
+      this.playAction(animKey, () => this.returnToIdle());
+    } else {
+      this.poseTween?.stop();
+      this.poseTween = this.scene.tweens.add({
+        targets: this.sprite,
+        angle: 0,
+        duration,
+        ease: 'Back.easeOut',
+        onComplete: () => {
+          if (this.currentState === FighterState.WAKEUP) this.returnToIdle();
+        },
+      });
+    }
+
+    this.isInvincible = true;
+    this.invincibilityTimer = duration + KNOCKDOWN.WAKEUP_INVINCIBILITY;
+  }
+
+  /**
+   * Check if a throw can grab this fighter
+   * Only grounded fighters who aren't reeling, dodging or waking up
+   */
+  canBeThrown(): boolean {
+    if (this.isInvincible || this.currentHealth <= 0 || !this.isOnGround()) {
+      return false;
+    }
+    return this.currentState === FighterState.IDLE ||
+      this.currentState === FighterState.RUNNING ||
+      this.currentState === FighterState.GUARDING ||
+      this.currentState === FighterState.ATTACKING;
+  }
+
+  /**
+   * Get grabbed by a throw and held for the tech window
+   * The attacker freezes on the grab frame until the throw resolves
+   * @param attacker - Fighter performing the throw
+   * @param onThrown - Called if the throw isn't teched (applies its damage)
+   */
+  grab(attacker: Fighter, onThrown: () => void): void {
+    const attack = attacker.getCurrentAttack();
+    if (!attack) return;
+
+    this.currentState = FighterState.GRABBED;
+    this.currentAttack = null;
+    this.setFacing(attacker.sprite.x > this.sprite.x);
+    this.getBody().setVelocityX(0);
+    this.playAction(this.animations.hurt);
+    this.grabHold = { attacker, attack, timer: THROW.TECH_WINDOW, onThrown };
+
+    attacker.holdingThrow = true;
+    attacker.sprite.anims.pause();
+    attacker.getBody().setVelocityX(0);
+  }
+
+  /** Tech window: break free on throw, otherwise get thrown when it runs out */
+  private updateGrab(delta: number): void {
+    const hold = this.grabHold;
+
+    // The attacker was interrupted - let go
+    if (!hold || hold.attacker.getCurrentAttack() !== hold.attack) {
+      this.releaseGrab();
+      this.returnToIdle();
+      return;
+    }
+
+    if (this.isThrowRequested()) {
+      this.techThrow(hold.attacker);
+      return;
+    }
+
+    hold.timer -= delta;
+    if (hold.timer <= 0) {
+      this.releaseGrab();
+      hold.onThrown();
+      if (this.currentState === FighterState.GRABBED) {
+        this.returnToIdle();
+      }
+    }
+  }
+
+  /** Let go of this fighter - the attacker's throw animation carries on */
+  private releaseGrab(): void {
+    const hold = this.grabHold;
+    if (!hold) return;
+
+    this.grabHold = null;
+    const attacker = hold.attacker;
+    if (attacker.holdingThrow) {
+      attacker.holdingThrow = false;
+      if (!attacker.isInHitstop()) {
+        attacker.sprite.anims.resume();
+      }
+    }
+  }
+
+  /** Break out of a throw - both fighters are pushed apart */
+  private techThrow(attacker: Fighter): void {
+    this.releaseGrab();
+    attacker.returnToIdle();
+    this.returnToIdle();
+
+    const direction = this.sprite.x < attacker.sprite.x ? -1 : 1;
+    this.getBody().setVelocityX(direction * THROW.TECH_PUSHBACK);
+    attacker.getBody().setVelocityX(-direction * THROW.TECH_PUSHBACK);
+
+    this.showThrowTech();
+  }
+
+  /** Floating "TECH" text over the fighter who broke free */
+  private showThrowTech(): void {
+    const text = this.scene.add.text(this.sprite.x, this.sprite.y - this.sprite.displayHeight * 0.8, 'TECH!', {
+      fontFamily: 'Quantico, Russo One, Arial',
+      fontSize: '26px',
+      fontStyle: 'bold',
+      color: '#66ccff',
+      stroke: '#000000',
+      strokeThickness: 5,
+    });
+    text.setOrigin(0.5, 1);
+    text.setDepth(1001);
+
+    this.scene.tweens.add({
+      targets: text,
+      y: text.y - 40,
+      alpha: 0,
+      delay: 300,
+      duration: 500,
+      onComplete: () => text.destroy(),
+    });
+  }
+
+  /**
+   * Build super meter (ignored once knocked out)
+   * @param amount - Meter to add
+   */
+  gainSuper(amount: number): void {
+    if (this.currentHealth <= 0) return;
+    this.setSuper(this.superMeter + amount);
+  }
+
+  /**
+   * Spend the full super meter
+   * @returns true if the meter was full
+   */
+  protected spendSuper(): boolean {
+    if (!this.isSuperReady()) return false;
+    this.setSuper(0);
+    return true;
+  }
+
+  private setSuper(value: number): void {
+    const wasReady = this.isSuperReady();
+    this.superMeter = Phaser.Math.Clamp(value, 0, SUPER_METER.MAX);
+    this.superMeterBar?.updateMeter(this.superMeter);
+
+    if (this.isSuperReady() !== wasReady) {
+      this.onSuperReadyChanged(!wasReady);
+    }
+  }
+
+  /** Called when the super meter fills up or is spent */
+  protected onSuperReadyChanged(_ready: boolean): void {}
+
+  /**
+   * Check if the super meter is full
+   */
+  isSuperReady(): boolean {
+    return this.superMeter >= SUPER_METER.MAX;
+  }
+
+  private loseHealth(amount: number): void {
+    this.currentHealth = Math.max(0, this.currentHealth - amount);
+
+    // Update health bar
+    if (this.healthBar) {
+      this.healthBar.updateHealth(this.currentHealth);
+    }
+  }
+
+  /**
+   * Reset for a new round: full health and guard, idle on the given spot
+   * The super meter carries over between rounds
+   */
+  resetForRound(x: number, y: number, facingRight: boolean): void {
+    // Nothing from the last round may change the new round's pose or tint
+    this.poseTween?.stop();
+    this.poseTween = null;
+    this.sprite.setAngle(0);
+    this.armorFlash?.remove(true); // Restores the tint the flash covered
+    this.armorFlash = null;
+
+    this.releaseGrab();
+    this.currentAttack = null;
+    this.actionCompleteHandler = null;
+    this.stunTimer = 0;
+    this.hitstopFrames = 0;
+    this.juggleHits = 0;
+    this.hasBounced = false;
+    this.downTimer = 0;
+    this.armorHits = 0;
+    this.isInvincible = false;
+    this.invincibilityTimer = 0;
+    this.jumpsRemaining = this.config.MAX_JUMPS;
+    this.jumpBufferTimer = 0;
+
+    this.currentHealth = this.maxHealth;
+    this.healthBar?.updateHealth(this.currentHealth);
+    this.guardRegenTimer = 0;
+    this.setGuard(this.config.GUARD_MAX);
+
+    const body = this.getBody();
+    body.reset(x, y);
+    body.moves = true;
+    body.setGravityY(0);
+    body.setAcceleration(0, 0);
+    this.setFacing(facingRight);
+    this.returnToIdle();
+  }
+
+  /** Knocked out - freeze in place */
+  private die(): void {
+    if (this.currentState !== FighterState.HURT) {
+      this.triggerHurt();
+    }
+    this.currentState = FighterState.DEAD;
+    this.guardShield.setVisible(false);
+
+    const body = this.getBody();
+    body.setGravityY(0);
+    body.setVelocity(0, 0);
+    body.setAcceleration(0, 0);
+  }
+
+  /**
+   * Convert a hitbox/hurtbox (relative to the feet, facing right) to world space
+   */
+  protected createHitbox(box: HitboxRect): Phaser.Geom.Rectangle {
+    const centerX = this.sprite.x + (this.facingRight ? box.x : -box.x);
+    const centerY = this.sprite.y + box.y;
+    return new Phaser.Geom.Rectangle(centerX - box.width / 2, centerY - box.height / 2, box.width, box.height);
+  }
+
+  /** Get the Arcade physics body */
+  protected getBody(): Phaser.Physics.Arcade.Body {
+    return this.sprite.body as Phaser.Physics.Arcade.Body;
+  }
+
+  /** Get the underlying Phaser sprite for physics/camera */
+  getSprite(): Phaser.Physics.Arcade.Sprite {
+    return this.sprite;
+  }
+
+  getState(): FighterState {
+    return this.currentState;
+  }
+
+  isOnGround(): boolean {
+    return this.getBody().blocked.down;
+  }
+
+  /**
+   * Get current attack type (for determining defender reaction)
+   */
+  getAttackType(): string | null {
+    return this.currentAttack?.moveId ?? null;
+  }
+
+  /** Set which direction the fighter faces */
+  setFacing(right: boolean): void {
+    this.facingRight = right;
+    this.sprite.setFlipX(!right); // Sprite faces right by default, flip when facing left
+  }
+
+  /**
+   * Check if fighter is facing right
+   */
+  isFacingRight(): boolean {
+    return this.facingRight;
+  }
+
+  /**
+   * Set health bar reference
+   */
+  setHealthBar(healthBar: HealthBar): void {
+    this.healthBar = healthBar;
+  }
+
+  /**
+   * Set guard meter reference
+   */
+  setGuardMeter(guardMeter: GuardMeter): void {
+    this.guardMeter = guardMeter;
+  }
+
+  /**
+   * Set super meter HUD reference
+   */
+  setSuperMeterBar(superMeterBar: SuperMeterBar): void {
+    this.superMeterBar = superMeterBar;
+  }
+
+  /**
+   * Get current super meter
+   */
+  getSuper(): number {
+    return this.superMeter;
+  }
+
+  /**
+   * Get current guard
+   */
+  getGuard(): number {
+    return this.guard;
+  }
+
+  /**
+   * Get max guard
+   */
+  getMaxGuard(): number {
+    return this.config.GUARD_MAX;
+  }
+
+  /**
+   * Get current health
+   */
+  getCurrentHealth(): number {
+    return this.currentHealth;
+  }
+
+  /**
+   * Get max health
+   */
+  getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  /**
+   * Check if fighter is dead
+   */
+  isDead(): boolean {
+    return this.currentHealth <= 0;
+  }
+
+  /**
+   * Check if fighter is invincible
+   */
+  getIsInvincible(): boolean {
+    return this.isInvincible;
+  }
+
+  /**
+   * Get fighter's current X position
+   */
+  getX(): number {
+    return this.sprite.x;
+  }
+
+  /**
+   * Get fighter's current Y position
+   */
+  getY(): number {
+    return this.sprite.y;
+  }
+}
@@ -6,11 +6,26 @@
  */
 
 import Phaser from 'phaser';
-import { InputManager } from '../systems/InputManager.ts';
-import { HealthBar } from '../ui/HealthBar.ts';
+import { Fighter, FighterConfig, FighterState } from './Fighter.ts';
+import { applyPowerGlow } from './PowerBooster.ts';
+import { FighterControls } from '../systems/FighterControls.ts';
+import { InputBuffer } from '../systems/InputBuffer.ts';
+import { matchCommand } from '../systems/CommandParser.ts';
+import { JUAN_MOVES, JuanMoveId } from '../combat/moves/juan.ts';
+import { JUAN_COMMANDS } from '../combat/commands/juan.ts';
+import { JUAN_HURTBOXES } from '../combat/hurtboxes/juan.ts';
+import { ParryEvent, ParryGrade, PARRY_REWARDS, gradeParry } from '../combat/Parry.ts';
+import { SUPER_METER, SuperEvent } from '../combat/SuperMeter.ts';
+import { GameEvents } from '../types/index.ts';
+
+/** Payload of GameEvents.COUNTER_DODGE */
+export interface CounterDodgeEvent {
+  /** Fighter who dodged */
+  fighter: Fighter;
+}
 
 /** Player physics and movement configuration */
-const CONFIG = {
+const CONFIG: FighterConfig = {
   MOVE_SPEED: 300,
   ACCELERATION: 1500,
   DRAG: 1000,
@@ -25,98 +40,90 @@ const CONFIG = {
   // Physics body size (in texture coordinates)
   BODY_WIDTH: 80,
   BODY_HEIGHT: 200, // Reduced from 280 to give head clearance
-  // Character positioning within frame (in texture coordinates)
-  // Empty space above the character's head
-  CHAR_TOP_PADDING: 30,
   // Empty space below the character's feet (30px from bottom = feet at 370px)
   CHAR_BOTTOM_PADDING: 30,
+  // Origin at character's feet position (not frame bottom)
+  ORIGIN_Y: (400 - 30) / 400,
   // Health system
   MAX_HEALTH: 100,
-  INVINCIBILITY_DURATION: 500, // ms
-  KNOCKBACK_FORCE: 250, // pixels/second
+  // Guard system
+  GUARD_MAX: 60,
+  GUARD_REGEN_RATE: 15, // guard per second
+  GUARD_REGEN_DELAY: 1000, // ms
+  GUARD_BREAK_STUN: 900, // ms
+  CHIP_DAMAGE_RATIO: 0.2,
+  BLOCK_PUSHBACK_RATIO: 0.5,
 };
 
-/** Damage values for different attacks */
-const DAMAGE = {
-  PUNCH: 10,
-  UPPERCUT: 20, // Combo punch
-  AERIAL_PUNCH: 15,
+/** Sound played per attack */
+const ATTACK_SOUNDS: Record<JuanMoveId, { key: string; volume: number }> = {
+  punch: { key: 'punch-sfx', volume: 0.5 },
+  uppercut: { key: 'punch-sfx', volume: 0.6 },
+  'aerial-punch': { key: 'punch-sfx', volume: 0.6 },
+  kick: { key: 'kick-sfx', volume: 0.5 },
+  sidekick: { key: 'kick-sfx', volume: 0.6 },
+  'rising-uppercut': { key: 'punch-sfx', volume: 0.7 },
+  'charge-sidekick': { key: 'kick-sfx', volume: 0.7 },
+  'super-rush': { key: 'punch-sfx', volume: 0.8 },
+  'super-finisher': { key: 'kick-sfx', volume: 0.8 },
+  throw: { key: 'punch-sfx', volume: 0.4 },
 };
 
-/** Player state for animation system */
-export enum PlayerState {
-  IDLE,
-  RUNNING,
-  JUMPING,
-  FALLING,
-  ATTACKING,
-  HURT,
-  DEAD,
-  DODGING,
-}
-
-export class Player {
-  private scene: Phaser.Scene;
-  private sprite: Phaser.Physics.Arcade.Sprite;
-  private inputManager: InputManager;
-  private jumpsRemaining: number = CONFIG.MAX_JUMPS;
-  private currentState: PlayerState = PlayerState.IDLE;
-  private facingRight: boolean = true;
-
-  // Combo system timing
-  private readonly COMBO_WINDOW: number = 800;     // ms to chain combo
-  private readonly COMBO_MIN_DELAY: number = 250;  // ms before combo can trigger (let first anim play)
+export class Player extends Fighter {
+  // Command input - timestamped history matched against JUAN_COMMANDS
+  private inputBuffer: InputBuffer;
 
-  // Punch combo system
-  private comboCount: number = 0;
-  private comboTimer: number = 0;
-  private comboDelayTimer: number = 0;
+  // Combo system (chains are entries in JUAN_COMMANDS)
+  private lastMove: JuanMoveId | null = null;
+  private lastMoveTime: number = 0; // Scene time the last move started
 
-  // Input buffer - queue next attack during current animation
-  private bufferedAttack: 'punch' | 'uppercut' | 'aerial-punch' | null = null;
-
-  // Jump buffer - allows pressing jump slightly before landing
-  private jumpBufferTimer: number = 0;
-
-  // Health system
-  private maxHealth: number = CONFIG.MAX_HEALTH;
-  private currentHealth: number = CONFIG.MAX_HEALTH;
-  private isInvincible: boolean = false;
-  private invincibilityTimer: number = 0;
-  private healthBar: HealthBar | null = null;
-
-  // Attack tracking for hitbox generation
-  private currentAttackType: 'punch' | 'uppercut' | 'aerial-punch' | null = null;
+  // Attack buffer - queue next attack during current animation
+  private bufferedAttack: JuanMoveId | null = null;
 
   // Counter-dodge system - callbacks for enemy warning checks
   private isAnyEnemyShowingWarning: (() => boolean) | null = null;
   private getTimeUntilEnemyAttack: (() => number) | null = null;
   private counterDodgeQueued: boolean = false; // True if player pressed U during warning
+  private counterDodgeTimer: Phaser.Time.TimerEvent | null = null; // Queued dodge waiting for the attack
+
+  // Parry system - a counter-dodge timed right on the enemy attack
+  private readonly PARRY_INVINCIBILITY: number = 400;   // ms protected after a parry
+  private readonly PARRY_PUNISH_WINDOW: number = 1500;  // ms of bonus damage after a parry
+  private getEnemyAttackOffset: (() => number | null) | null = null;
+  private onParry: ((grade: ParryGrade) => void) | null = null;
+  private parryPunishTimer: number = 0;
+  private parryDamageMultiplier: number = 1;
+  private lastParryGrade: ParryGrade | null = null;
+  private parryCounts: Record<ParryGrade, number> = { perfect: 0, good: 0, late: 0 };
+
+  // Super move - full meter, freeze-frame then super-rush -> super-finisher
+  private readonly SUPER_FREEZE_FRAMES: number = 30;   // Frames everything freezes as the super starts
+  private readonly SUPER_INVINCIBILITY: number = 300;  // ms protected once the freeze ends
+  private readonly SUPER_TINT: number = 0xffdd44;      // "Charged" glow while the meter is full
+  private readonly SUPER_GLOW_SCALE: number = 1.08;
+  private revertChargedGlow: (() => void) | null = null;
 
   // All animations now use standardized 200x400 frames - no per-animation config needed!
 
-  constructor(scene: Phaser.Scene, x: number, y: number, inputManager: InputManager) {
-    this.scene = scene;
-    this.inputManager = inputManager;
-
-    // Create animations
-    this.createAnimations();
-
-    // Create the physics sprite
-    // Set origin at character's feet position (not frame bottom)
-    this.sprite = scene.physics.add.sprite(x, y, 'juan-idle');
-    const originY = (CONFIG.FRAME_HEIGHT - CONFIG.CHAR_BOTTOM_PADDING) / CONFIG.FRAME_HEIGHT;
-    this.sprite.setOrigin(0.5, originY);
-    this.sprite.setScale(CONFIG.SCALE);
-
-    // Configure physics body
-    this.setupPhysicsBody();
-
-    // Start with idle animation
-    this.sprite.play('juan-idle');
-  }
-
-  private createAnimations(): void {
+  constructor(scene: Phaser.Scene, x: number, y: number, controls: FighterControls) {
+    super(scene, x, y, controls, CONFIG, {
+      idle: 'juan-idle',
+      run: 'running-animation',
+      jump: 'juan-jump',
+      hurt: 'juan-getting-punched',
+      hurtByRegion: {
+        torso: 'juan-getting-punched-stomach',
+        legs: 'juan-getting-punched-stomach',
+      },
+      knockdown: 'juan-knockdown',
+      wakeup: 'juan-wakeup',
+      quickRise: 'juan-kipup-rise',
+    }, JUAN_MOVES, JUAN_HURTBOXES, true);
+
+    this.inputBuffer = new InputBuffer(controls);
+  }
+
+  protected createAnimations(): void {
     // Idle animation - 6 frames (row 1 of 6x3 grid), looping
     this.scene.anims.create({
       key: 'juan-idle',
@@ -182,6 +189,81 @@ export class Player {
       repeat: 0,
     });
 
+    // Kick animation - 5 standard frames (200px each), rising kick then back down
+    // Sequence: stance -> knee up -> low kick -> mid kick -> high kick -> knee up -> stance
+    this.scene.anims.create({
+      key: 'juan-kick',
+      frames: [
+        { key: 'juan-kick', frame: 0 },      // stance
+        { key: 'juan-kick', frame: 2 },      // knee up
+        { key: 'juan-kick', frame: 3 },      // low kick
+        { key: 'juan-kick', frame: 4 },      // mid kick
+        { key: 'juan-kick', frame: 5 },      // high kick
+        { key: 'juan-kick', frame: 2 },      // knee up (retract)
+        { key: 'juan-kick', frame: 0 },      // stance
+      ],
+      frameRate: 14,
+      repeat: 0,
+    });
+
+    // Sidekick animation - uses custom wide frames for the extended leg
+    // Layout: frames 0-3 (200px) | extend (400px) on row 1, follow (400px) | frames 8-9 (200px) on row 2
+    // Sequence: hop -> stance -> lunge -> knee up -> extend (wide) -> follow (wide) -> retract -> stance
+    this.scene.anims.create({
+      key: 'juan-sidekick',
+      frames: [
+        { key: 'juan-sidekick', frame: 0 },                 // hop step
+        { key: 'juan-sidekick', frame: 1 },                 // stance
+        { key: 'juan-sidekick', frame: 2 },                 // lunge
+        { key: 'juan-sidekick', frame: 3 },                 // knee up
+        { key: 'juan-sidekick', frame: 'sidekick_extend' }, // slots 4+5 combined (400px)
+        { key: 'juan-sidekick', frame: 'sidekick_follow' }, // slots 6+7 combined (400px)
+        { key: 'juan-sidekick', frame: 8 },                 // retract
+        { key: 'juan-sidekick', frame: 9 },                 // stance
+      ],
+      frameRate: 16,
+      repeat: 0,
+    });
+
+    // Super rush animation - mixes frames from the punch, kick and uppercut sheets
+    // Sequence: guard -> wind-up -> jab -> impact -> wind-up -> jab -> impact -> mid kick -> high kick -> uppercut -> recovery
+    this.scene.anims.create({
+      key: 'juan-super-rush',
+      frames: [
+        { key: 'juan-punch', frame: 0 },     // guard stance
+        { key: 'juan-punch', frame: 1 },     // wind-up
+        { key: 'juan-punch', frame: 2 },     // jab thrust
+        { key: 'juan-punch', frame: 3 },     // impact
+        { key: 'juan-punch', frame: 1 },     // wind-up
+        { key: 'juan-punch', frame: 2 },     // jab thrust
+        { key: 'juan-punch', frame: 3 },     // impact
+        { key: 'juan-kick', frame: 4 },      // mid kick
+        { key: 'juan-kick', frame: 5 },      // high kick
+        { key: 'juan-uppercut', frame: 2 },  // uppercut rising
+        { key: 'juan-uppercut', frame: 3 },
+        { key: 'juan-uppercut', frame: 4 },  // uppercut top
+        { key: 'juan-punch', frame: 5 },     // recovery
+      ],
+      frameRate: 18,
+      repeat: 0,
+    });
+
+    // Throw animation - reach and grab from the punch sheet, heave from the uppercut sheet
+    this.scene.anims.create({
+      key: 'juan-throw',
+      frames: [
+        { key: 'juan-punch', frame: 0 },     // guard stance
+        { key: 'juan-punch', frame: 1 },     // wind-up
+        { key: 'juan-punch', frame: 2 },     // reach
+        { key: 'juan-punch', frame: 3 },     // grab
+        { key: 'juan-uppercut', frame: 3 },  // heave
+        { key: 'juan-uppercut', frame: 4 },
+        { key: 'juan-punch', frame: 5 },     // recovery
+      ],
+      frameRate: 14,
+      repeat: 0,
+    });
+
     // Getting punched animation - 5 frames, hurt/damage reaction
     // Sequence: standing -> brace -> impact -> recoil -> recovery
     this.scene.anims.create({
@@ -237,162 +319,133 @@ export class Player {
       frameRate: 16,
       repeat: 0,
     });
-  }
 
-  private setupPhysicsBody(): void {
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-
-    // Set physics body size (in texture coordinates, scaled automatically)
-    body.setSize(CONFIG.BODY_WIDTH, CONFIG.BODY_HEIGHT);
+    // Knockdown, wake-up and quick-rise reuse the second half of the kipup sheet
+    // Knockdown: bridge -> flat on the shoulders (held while lying down)
+    this.scene.anims.create({
+      key: 'juan-knockdown',
+      frames: this.scene.anims.generateFrameNumbers('juan-kipup', { frames: [3, 4] }),
+      frameRate: 10,
+      repeat: 0,
+    });
 
-    // Character is centered in frame with padding above and below
-    // Center body horizontally
-    const offsetX = (CONFIG.FRAME_WIDTH - CONFIG.BODY_WIDTH) / 2;
-    // Position body to align with where character actually is in the frame
-    // Body bottom should be at: FRAME_HEIGHT - CHAR_BOTTOM_PADDING
-    const offsetY = CONFIG.FRAME_HEIGHT - CONFIG.CHAR_BOTTOM_PADDING - CONFIG.BODY_HEIGHT;
-    body.setOffset(offsetX, offsetY);
+    // Wake-up: shoulders -> crouch -> stance, slowly
+    this.scene.anims.create({
+      key: 'juan-wakeup',
+      frames: this.scene.anims.generateFrameNumbers('juan-kipup', { frames: [5, 9, 10] }),
+      frameRate: 5,
+      repeat: 0,
+    });
 
-    // Prevent player from leaving the game world horizontally
-    body.setCollideWorldBounds(true);
-    body.setMaxVelocity(CONFIG.MOVE_SPEED, 800);
-    body.setDrag(CONFIG.DRAG, 0);
+    // Quick-rise (jump while knocked down): kip-up from the shoulders to stance
+    this.scene.anims.create({
+      key: 'juan-kipup-rise',
+      frames: this.scene.anims.generateFrameNumbers('juan-kipup', { start: 6, end: 10 }),
+      frameRate: 16,
+      repeat: 0,
+    });
   }
 
-  // With standardized 200x400 frames, no per-animation adjustments needed!
-
+  protected updateTimers(delta: number): void {
+    super.updateTimers(delta);
 
-  update(): void {
-    if (!this.scene.registry.get('matchStarted')) return;
+    // Record inputs every frame (even while stunned) so motions and charges carry over
+    this.inputBuffer.update(this.scene.time.now);
 
-    const delta = this.scene.game.loop.delta;
-
-    // Update punch combo timers
-    if (this.comboTimer > 0) {
-      this.comboTimer -= delta;
-      if (this.comboTimer <= 0) {
-        this.comboCount = 0; // Reset combo if window expired
-      }
-    }
-    if (this.comboDelayTimer > 0) {
-      this.comboDelayTimer -= delta;
-    }
-
-    // Update invincibility timer
-    if (this.invincibilityTimer > 0) {
-      this.invincibilityTimer -= delta;
-      if (this.invincibilityTimer <= 0) {
-        this.isInvincible = false;
-      }
+    // Update parry punish window
+    if (this.parryPunishTimer > 0) {
+      this.parryPunishTimer -= delta;
     }
+  }
 
+  protected handleActions(): void {
     // Debug: Press P to trigger hurt animation (temporary, for testing without enemies)
     this.handleDebugHurt();
 
     this.handleCounterDodge();
     this.handleDodge();
     this.handleMatrixDodge();
+    this.handleSuper();
+    this.handleThrow();
     this.handleAttack();
-    this.handleMovement();
-    this.handleJump();
-    this.updateState();
-    this.updateFacing();
   }
 
   /** Debug method to trigger hurt animations with P/O keys (temporary, for testing) */
   private handleDebugHurt(): void {
-    if (this.inputManager.isDebugHurtPressed()) {
+    if (this.controls.isDebugHurtPressed?.()) {
       this.triggerHurt();
     }
-    if (this.inputManager.isDebugHurtStomachPressed()) {
+    if (this.controls.isDebugHurtStomachPressed?.()) {
       this.triggerHurtStomach();
     }
   }
 
-  /** Trigger the hurt/getting punched animation (face) */
-  public triggerHurt(): void {
-    // Don't interrupt if already hurt
-    if (this.currentState === PlayerState.HURT) {
-      return;
-    }
-
-    this.currentState = PlayerState.HURT;
-    this.sprite.play('juan-getting-punched');
+  /** Getting hit drops any queued attack (including a super's finisher) */
+  protected playHurt(animKey: string, hitstun?: number): void {
+    this.bufferedAttack = null;
+    super.playHurt(animKey, hitstun);
+  }
 
-    // Return to idle after animation completes
-    this.sprite.once('animationcomplete', () => {
-      this.currentState = PlayerState.IDLE;
-      this.sprite.play('juan-idle');
-    });
+  /** A new round drops chains, queued moves and parry rewards */
+  resetForRound(x: number, y: number, facingRight: boolean): void {
+    this.inputBuffer.clear(); // Motions from last round can't finish a command now
+    this.lastMove = null;
+    this.bufferedAttack = null;
+    this.counterDodgeQueued = false;
+    this.counterDodgeTimer?.remove(false);
+    this.counterDodgeTimer = null;
+    this.parryPunishTimer = 0;
+    this.parryDamageMultiplier = 1;
+    super.resetForRound(x, y, facingRight);
   }
 
   /** Trigger the stomach hurt/gut punch animation */
   public triggerHurtStomach(): void {
-    // Don't interrupt if already hurt
-    if (this.currentState === PlayerState.HURT) {
-      return;
-    }
-
-    this.currentState = PlayerState.HURT;
-    this.sprite.play('juan-getting-punched-stomach');
-
-    // Return to idle after animation completes
-    this.sprite.once('animationcomplete', () => {
-      this.currentState = PlayerState.IDLE;
-      this.sprite.play('juan-idle');
-    });
+    this.playHurt('juan-getting-punched-stomach');
   }
 
   /** Handle dodge input (I key) */
   private handleDodge(): void {
     // Don't allow dodge while already dodging, attacking, or hurt
-    if (this.currentState === PlayerState.DODGING ||
-      this.currentState === PlayerState.ATTACKING ||
-      this.currentState === PlayerState.HURT) {
+    if (this.currentState === FighterState.DODGING ||
+      this.currentState === FighterState.ATTACKING ||
+      this.currentState === FighterState.HURT) {
       return;
     }
 
-    if (this.inputManager.isDodgePressed()) {
+    if (this.controls.isDodgePressed()) {
       this.performDodge();
     }
   }
 
   /** Perform the dodge animation */
   private performDodge(): void {
-    this.currentState = PlayerState.DODGING;
-    this.sprite.play('juan-dodge');
+    this.currentState = FighterState.DODGING;
 
     // Return to idle after animation completes
-    this.sprite.once('animationcomplete', () => {
-      this.currentState = PlayerState.IDLE;
-      this.sprite.play('juan-idle');
-    });
+    this.playAction('juan-dodge', () => this.returnToIdle());
   }
 
   /** Handle matrix dodge input (L key) */
   private handleMatrixDodge(): void {
     // Don't allow matrix dodge while already dodging, attacking, or hurt
-    if (this.currentState === PlayerState.DODGING ||
-      this.currentState === PlayerState.ATTACKING ||
-      this.currentState === PlayerState.HURT) {
+    if (this.currentState === FighterState.DODGING ||
+      this.currentState === FighterState.ATTACKING ||
+      this.currentState === FighterState.HURT) {
       return;
     }
 
-    if (this.inputManager.isMatrixDodgePressed()) {
+    if (this.controls.isMatrixDodgePressed()) {
       this.performMatrixDodge();
     }
   }
 
   /** Perform the matrix-style dodge animation */
   private performMatrixDodge(): void {
-    this.currentState = PlayerState.DODGING;
-    this.sprite.play('juan-matrix-dodge');
+    this.currentState = FighterState.DODGING;
 
     // Return to idle after animation completes
-    this.sprite.once('animationcomplete', () => {
-      this.currentState = PlayerState.IDLE;
-      this.sprite.play('juan-idle');
-    });
+    this.playAction('juan-matrix-dodge', () => this.returnToIdle());
   }
 
   /**
@@ -406,6 +459,17 @@ export class Player {
     this.getTimeUntilEnemyAttack = timeUntilAttack;
   }
 
+  /**
+   * Set the callbacks for the parry system
+   * This is called by GameScene after creating the player
+   * @param getAttackOffset - Returns press time relative to the targeted enemy attack executing (null if none)
+   * @param onParry - Staggers the parried enemy
+   */
+  public setParryHandler(getAttackOffset: () => number | null, onParry: (grade: ParryGrade) => void): void {
+    this.getEnemyAttackOffset = getAttackOffset;
+    this.onParry = onParry;
+  }
+
   /**
    * Handle counter-dodge input (U key)
    * Counter-dodge only works during enemy attack warning window (500ms)
@@ -413,14 +477,22 @@ export class Player {
    */
   private handleCounterDodge(): void {
     // Don't allow counter-dodge while already dodging, attacking, hurt, or already queued
-    if (this.currentState === PlayerState.DODGING ||
-      this.currentState === PlayerState.ATTACKING ||
-      this.currentState === PlayerState.HURT ||
+    if (this.currentState === FighterState.DODGING ||
+      this.currentState === FighterState.ATTACKING ||
+      this.currentState === FighterState.HURT ||
       this.counterDodgeQueued) {
       return;
     }
 
-    if (this.inputManager.isCounterDodgePressed()) {
+    if (this.controls.isCounterDodgePressed()) {
+      // Pressed right around the attack executing - parry instead
+      const offset = this.getEnemyAttackOffset?.() ?? null;
+      const grade = offset !== null ? gradeParry(offset) : null;
+      if (offset !== null && grade) {
+        this.performParry(grade, offset);
+        return;
+      }
+
       // Check if any enemy is showing attack warning
       const enemyIsAttacking = this.isAnyEnemyShowingWarning?.() ?? false;
       
@@ -444,6 +516,9 @@ export class Player {
     
     // Mark as queued so we don't queue multiple times
     this.counterDodgeQueued = true;
+    this.gainSuper(SUPER_METER.COUNTER_DODGE);
+    const event: CounterDodgeEvent = { fighter: this };
+    this.scene.events.emit(GameEvents.COUNTER_DODGE, event);
     
     // Grant invincibility immediately to protect during the wait
     // Duration covers: wait time + dodge animation time
@@ -452,7 +527,8 @@ export class Player {
     
     if (delayMs > 0) {
       // Delay the dodge animation to sync with enemy attack
-      this.scene.time.delayedCall(delayMs, () => {
+      this.counterDodgeTimer = this.scene.time.delayedCall(delayMs, () => {
+        this.counterDodgeTimer = null;
         this.performCounterDodge(true, 0);
       });
     } else {
@@ -467,7 +543,7 @@ export class Player {
    * @param _delay - Unused, kept for API consistency
    */
   private performCounterDodge(successful: boolean, _delay: number): void {
-    this.currentState = PlayerState.DODGING;
+    this.currentState = FighterState.DODGING;
     this.counterDodgeQueued = false; // Clear the queue flag
     
     // Randomly choose between the three dodge animations
@@ -475,7 +551,8 @@ export class Player {
     const randomIndex = Math.floor(Math.random() * dodgeAnimations.length);
     const animKey = dodgeAnimations[randomIndex];
     
-    this.sprite.play(animKey);
+    // Return to idle after animation completes
+    this.playAction(animKey, () => this.returnToIdle());
 
     if (successful) {
       // Invincibility was already granted in queueCounterDodge
@@ -489,399 +566,221 @@ export class Player {
         ease: 'Sine.easeInOut',
       });
     }
-
-    // Return to idle after animation completes
-    this.sprite.once('animationcomplete', () => {
-      this.currentState = PlayerState.IDLE;
-      this.sprite.play('juan-idle');
-    });
   }
 
-  private handleAttack(): void {
-    // Don't allow attacks while hurt
-    if (this.currentState === PlayerState.HURT) {
-      return;
-    }
-
-    // Cache key states (JustDown only returns true once per press)
-    const punchPressed = this.inputManager.isPunchPressed();
-    const uppercutPressed = this.inputManager.isUppercutPressed();
-    const isAttacking = this.currentState === PlayerState.ATTACKING;
-    const isAirborne = !this.isOnGround();
-
-    // Aerial punch - only C (punch) while in the air triggers aerial punch
-    if (isAirborne && !isAttacking && punchPressed) {
-      this.performAerialPunch();
-      return;
-    }
-
-    // Allow combo continuation even while attacking (but only after min delay)
-    // C key combo: second C during punch = uppercut
-    if (punchPressed && this.comboCount === 1 && this.comboDelayTimer <= 0) {
-      this.bufferedAttack = null; // Clear buffer, combo takes priority
-      this.performUppercut();
-      this.comboCount = 0;
-      this.comboTimer = 0;
-      return;
-    }
-
-    // Buffer inputs while attacking (queue next attack)
-    if (isAttacking) {
-      if (punchPressed) this.bufferedAttack = isAirborne ? 'aerial-punch' : 'punch';
-      else if (uppercutPressed) this.bufferedAttack = 'uppercut';
-      return;
-    }
-
-    // V key = uppercut (direct)
-    if (uppercutPressed) {
-      this.performUppercut();
-      return;
-    }
-
-    // C key = punch (first press starts combo)
-    if (punchPressed) {
-      this.performPunch();
-      return;
-    }
-
-    // Kick/sidekick removed
-  }
-
-  private onAttackComplete(): void {
-    // Check for buffered attack
-    if (this.bufferedAttack) {
-      const attack = this.bufferedAttack;
-      this.bufferedAttack = null;
+  /**
+   * Parry the enemy attack: stagger the enemy and open a punish window
+   * @param grade - Timing grade
+   * @param offset - Press time relative to the attack executing (ms)
+   */
+  private performParry(grade: ParryGrade, offset: number): void {
+    this.onParry?.(grade);
 
-      switch (attack) {
-        case 'punch':
-          this.performPunch();
-          break;
-        case 'uppercut':
-          this.performUppercut();
-          break;
-        case 'aerial-punch':
-          this.performAerialPunch();
-          break;
-      }
-    } else {
-      this.currentState = PlayerState.IDLE;
-      this.sprite.play('juan-idle');
-    }
+    // Protected while the parried attack plays out
+    this.isInvincible = true;
+    this.invincibilityTimer = this.PARRY_INVINCIBILITY;
+
+    // Deflect
+    this.currentState = FighterState.DODGING;
+    this.playAction('juan-dodge', () => this.returnToIdle());
+
+    // Bonus damage for a short while
+    this.parryPunishTimer = this.PARRY_PUNISH_WINDOW;
+    this.parryDamageMultiplier = PARRY_REWARDS[grade].damageMultiplier;
+
+    this.gainSuper(SUPER_METER.PARRY);
+    this.lastParryGrade = grade;
+    this.parryCounts[grade]++;
+    this.showParryEffect(grade);
+
+    const event: ParryEvent = { fighter: this, grade, offset };
+    this.scene.events.emit(GameEvents.PARRY, event);
+  }
+
+  /** Floating "PARRY" text with the timing grade */
+  private showParryEffect(grade: ParryGrade): void {
+    const colors: Record<ParryGrade, string> = {
+      perfect: '#ffdd44',
+      good: '#44ddff',
+      late: '#aaaaaa',
+    };
+
+    const text = this.scene.add.text(this.sprite.x, this.sprite.y - 170, `PARRY\n${grade.toUpperCase()}`, {
+      fontFamily: 'Quantico, Russo One, Arial',
+      fontSize: '28px',
+      fontStyle: 'bold',
+      color: colors[grade],
+      stroke: '#000000',
+      strokeThickness: 5,
+      align: 'center',
+    });
+    text.setOrigin(0.5, 1);
+    text.setDepth(1001);
+    text.setScale(0.5);
+
+    this.scene.tweens.add({
+      targets: text,
+      scale: 1,
+      duration: 120,
+      ease: 'Back.easeOut',
+    });
+    this.scene.tweens.add({
+      targets: text,
+      y: text.y - 40,
+      alpha: 0,
+      delay: 400,
+      duration: 500,
+      onComplete: () => text.destroy(),
+    });
   }
 
-  private performPunch(): void {
-    this.currentState = PlayerState.ATTACKING;
-    this.currentAttackType = 'punch';
-    this.sprite.play('juan-punch');
-    this.scene.sound.play('punch-sfx', { volume: 0.5 });
-    this.comboCount = 1;
-    this.comboTimer = this.COMBO_WINDOW;
-    this.comboDelayTimer = this.COMBO_MIN_DELAY;
-    this.sprite.once('animationcomplete', () => {
-      this.currentAttackType = null;
-      this.onAttackComplete();
-    });
+  /** Bonus damage during the parry punish window */
+  getDamageMultiplier(): number {
+    return this.parryPunishTimer > 0 ? this.parryDamageMultiplier : 1;
   }
 
-  private performUppercut(): void {
-    this.currentState = PlayerState.ATTACKING;
-    this.currentAttackType = 'uppercut';
-    this.sprite.play('juan-uppercut');
-    this.scene.sound.play('punch-sfx', { volume: 0.6 });
-    this.sprite.once('animationcomplete', () => {
-      this.currentAttackType = null;
-      this.onAttackComplete();
-    });
+  /** Grade of the most recent parry (for stats) */
+  getLastParryGrade(): ParryGrade | null {
+    return this.lastParryGrade;
   }
 
-  private performAerialPunch(): void {
-    this.currentState = PlayerState.ATTACKING;
-    this.currentAttackType = 'aerial-punch';
-    this.sprite.play('juan-aerial-punch');
-    this.scene.sound.play('punch-sfx', { volume: 0.6 });
-    this.sprite.once('animationcomplete', () => {
-      this.currentAttackType = null;
-      this.onAttackComplete();
-    });
+  /** Number of parries per grade (for stats) */
+  getParryCounts(): Record<ParryGrade, number> {
+    return { ...this.parryCounts };
   }
 
-  private handleMovement(): void {
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+  /** Handle super move input (F key, full meter, from the ground) */
+  private handleSuper(): void {
+    if (!this.controls.isSuperPressed()) return;
 
-    // Don't move while attacking, hurt, or dodging (keeps player planted during animations)
-    if (this.currentState === PlayerState.ATTACKING ||
-      this.currentState === PlayerState.HURT ||
-      this.currentState === PlayerState.DODGING) {
-      body.setAccelerationX(0);
+    // Cancels normal attacks, but not dodges or another super
+    if (this.currentState === FighterState.DODGING ||
+      this.getCurrentMove()?.super ||
+      !this.isOnGround() ||
+      !this.spendSuper()) {
       return;
     }
 
-    if (this.inputManager.isMovingLeft()) {
-      body.setAccelerationX(-CONFIG.ACCELERATION);
-      this.facingRight = false;
-    } else if (this.inputManager.isMovingRight()) {
-      body.setAccelerationX(CONFIG.ACCELERATION);
-      this.facingRight = true;
-    } else {
-      body.setAccelerationX(0);
-    }
+    this.performSuper();
   }
 
-  private handleJump(): void {
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-    const delta = this.scene.game.loop.delta;
-
-    // Update jump buffer timer
-    if (this.jumpBufferTimer > 0) {
-      this.jumpBufferTimer -= delta;
-    }
-
-    // Buffer jump input when pressed
-    if (this.inputManager.isJumpPressed()) {
-      this.jumpBufferTimer = CONFIG.JUMP_BUFFER_TIME;
-    }
+  /**
+   * Start the super: freeze-frame on the first frame, then the rush
+   * flows into the finisher
+   */
+  private performSuper(): void {
+    this.performAttack('super-rush');
+    this.bufferedAttack = 'super-finisher';
 
-    // Reset jumps when grounded
-    if (body.blocked.down) {
-      this.jumpsRemaining = CONFIG.MAX_JUMPS;
-    }
+    // Freeze-frame (GameScene freezes everyone else and zooms in)
+    this.applyHitstop(this.SUPER_FREEZE_FRAMES);
+    this.isInvincible = true;
+    this.invincibilityTimer = this.SUPER_INVINCIBILITY;
 
-    // Execute jump if buffer is active and we have jumps remaining
-    if (this.jumpBufferTimer > 0 && this.jumpsRemaining > 0) {
-      body.setVelocityY(CONFIG.JUMP_VELOCITY);
-      this.jumpsRemaining--;
-      this.jumpBufferTimer = 0; // Consume the buffer
-    }
+    const event: SuperEvent = {
+      moveId: 'super-rush',
+      sprite: this.sprite,
+      freezeFrames: this.SUPER_FREEZE_FRAMES,
+    };
+    this.scene.events.emit(GameEvents.SUPER, event);
   }
 
-  private updateState(): void {
-    // Don't change state while attacking, hurt, or dodging
-    if (this.currentState === PlayerState.ATTACKING ||
-      this.currentState === PlayerState.HURT ||
-      this.currentState === PlayerState.DODGING) {
-      return;
-    }
-
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-    const previousState = this.currentState;
-
-    if (!body.blocked.down) {
-      this.currentState = body.velocity.y < 0 ? PlayerState.JUMPING : PlayerState.FALLING;
+  /** Glow while the super meter is full (reuses the power booster look) */
+  protected onSuperReadyChanged(ready: boolean): void {
+    if (ready) {
+      this.revertChargedGlow = applyPowerGlow(this.scene, this.sprite, this.SUPER_TINT, this.SUPER_GLOW_SCALE);
     } else {
-      this.currentState = Math.abs(body.velocity.x) > 10 ? PlayerState.RUNNING : PlayerState.IDLE;
-    }
-
-    // Play animation when state changes
-    if (this.currentState !== previousState) {
-      this.playAnimationForState();
+      this.revertChargedGlow?.();
+      this.revertChargedGlow = null;
     }
   }
 
-  private playAnimationForState(): void {
-    switch (this.currentState) {
-      case PlayerState.IDLE:
-        if (this.sprite.anims.currentAnim?.key !== 'juan-idle') {
-          this.sprite.play('juan-idle');
-        }
-        break;
-      case PlayerState.RUNNING:
-        if (this.sprite.anims.currentAnim?.key !== 'running-animation') {
-          this.sprite.play('running-animation');
-        }
-        break;
-      case PlayerState.JUMPING:
-      case PlayerState.FALLING:
-        // Use jump animation for air states
-        if (this.sprite.anims.currentAnim?.key !== 'juan-jump') {
-          this.sprite.play('juan-jump');
-        }
-        break;
-      case PlayerState.ATTACKING:
-        // Keep current attack animation playing
-        break;
-    }
-  }
+  /** Handle throw input (T key, from the ground and out of neutral) */
+  private handleThrow(): void {
+    if (!this.isThrowRequested()) return;
 
-  private updateFacing(): void {
-    const shouldFlip = !this.facingRight;
-    if (this.sprite.flipX !== shouldFlip) {
-      this.sprite.setFlipX(shouldFlip);
+    if (this.currentState === FighterState.ATTACKING ||
+      this.currentState === FighterState.DODGING ||
+      !this.isOnGround()) {
+      return;
     }
-  }
 
-  /** Get the underlying Phaser sprite for physics/camera */
-  getSprite(): Phaser.Physics.Arcade.Sprite {
-    return this.sprite;
+    this.performAttack('throw');
   }
 
-  getState(): PlayerState {
-    return this.currentState;
-  }
-
-  isOnGround(): boolean {
-    return (this.sprite.body as Phaser.Physics.Arcade.Body).blocked.down;
-  }
-
-  /**
-   * Take damage from an attack
-   */
-  takeDamage(amount: number, attackerX: number): void {
-    // Don't take damage if invincible or dead
-    if (this.isInvincible || this.currentHealth <= 0) {
+  private handleAttack(): void {
+    // Don't allow attacks while hurt
+    if (this.currentState === FighterState.HURT) {
       return;
     }
 
-    this.currentHealth = Math.max(0, this.currentHealth - amount);
-
-    // Update health bar
-    if (this.healthBar) {
-      this.healthBar.updateHealth(this.currentHealth);
+    // Super moves play out in full (the finisher is already queued)
+    if (this.getCurrentMove()?.super) {
+      return;
     }
 
-    // Apply knockback
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-    const knockbackDirection = this.sprite.x < attackerX ? -1 : 1;
-    body.setVelocityX(knockbackDirection * CONFIG.KNOCKBACK_FORCE);
+    // Presses were read by the input buffer this frame
+    const button = this.inputBuffer.getPressed()[0];
+    if (!button) return;
 
-    // Start invincibility
-    this.isInvincible = true;
-    this.invincibilityTimer = CONFIG.INVINCIBILITY_DURATION;
-
-    // Play hurt animation
-    this.triggerHurt();
+    const isAttacking = this.currentState === FighterState.ATTACKING;
+    const isAirborne = !this.isOnGround();
 
-    // Check if dead
-    if (this.currentHealth <= 0) {
-      this.currentState = PlayerState.DEAD;
-      // Freeze in place
-      body.setVelocity(0, 0);
-      body.setAcceleration(0, 0);
+    // Aerial punch - only C (punch) while in the air triggers aerial punch
+    if (isAirborne && !isAttacking && button === 'punch') {
+      this.performAttack('aerial-punch');
+      return;
     }
-  }
 
-  /**
-   * Get the current attack hitbox bounds if attacking
-   * Returns null if not attacking or not in hit frame
-   */
-  getAttackHitbox(): Phaser.Geom.Rectangle | null {
-    if (this.currentState !== PlayerState.ATTACKING || !this.currentAttackType) {
-      return null;
-    }
+    // Specials and chains from the command list; otherwise the button's own move
+    const command = matchCommand(JUAN_COMMANDS, this.inputBuffer.getHistory(), button, {
+      time: this.scene.time.now,
+      facingRight: this.facingRight,
+      lastMove: this.lastMove,
+      lastMoveTime: this.lastMoveTime,
+    });
 
-    const anim = this.sprite.anims.currentAnim;
-    if (!anim) return null;
-
-    // Get current frame from sprite's animation manager
-    // Use type assertion as Phaser types may be incomplete
-    const animsManager = this.sprite.anims as any;
-    const currentFrame = animsManager.currentFrame;
-    if (!currentFrame) return null;
-
-    // Determine hitbox based on attack type
-    let hitboxWidth = 80;
-    let hitboxHeight = 60;
-    let offsetX = this.facingRight ? 50 : -50;
-    let offsetY = -30; // Slightly above center
-
-    // Adjust hitbox for different attacks
-    switch (this.currentAttackType) {
-      case 'punch':
-        // Punch hitbox - check if we're on the impact frame (index 3 in the animation)
-        if (anim.key === 'juan-punch' && currentFrame.index >= 2 && currentFrame.index <= 3) {
-          hitboxWidth = 100;
-          offsetX = this.facingRight ? 60 : -60;
-        } else {
-          return null; // Not in hit frame yet
-        }
-        break;
-      case 'uppercut':
-        // Uppercut hitbox - upward strike
-        if (anim.key === 'juan-uppercut' && currentFrame.index >= 1 && currentFrame.index <= 3) {
-          hitboxWidth = 70;
-          hitboxHeight = 80;
-          offsetX = this.facingRight ? 40 : -40;
-          offsetY = -50; // Higher up
-        } else {
-          return null;
-        }
-        break;
-      case 'aerial-punch':
-        // Aerial punch hitbox
-        if (anim.key === 'juan-aerial-punch' &&
-          (currentFrame.frame.name === 'windup' || currentFrame.frame.name === 'punch')) {
-          hitboxWidth = 100;
-          offsetX = this.facingRight ? 60 : -60;
-        } else {
-          return null;
-        }
-        break;
+    // Chains cancel the current attack (e.g. C, C = punch -> uppercut)
+    if (command?.after) {
+      this.bufferedAttack = null; // Clear buffer, combo takes priority
+      this.performAttack(command.move);
+      return;
     }
 
-    // Create hitbox rectangle
-    const hitboxX = this.sprite.x + offsetX - hitboxWidth / 2;
-    const hitboxY = this.sprite.y + offsetY - hitboxHeight / 2;
-
-    return new Phaser.Geom.Rectangle(hitboxX, hitboxY, hitboxWidth, hitboxHeight);
-  }
+    const move: JuanMoveId = command?.move ?? (button === 'punch' && isAirborne ? 'aerial-punch' : button);
 
-  /**
-   * Get damage value for current attack
-   */
-  getAttackDamage(): number {
-    if (!this.currentAttackType) return 0;
-
-    switch (this.currentAttackType) {
-      case 'punch':
-        return DAMAGE.PUNCH;
-      case 'uppercut':
-        return DAMAGE.UPPERCUT;
-      case 'aerial-punch':
-        return DAMAGE.AERIAL_PUNCH;
-      default:
-        return 0;
+    // Buffer inputs while attacking (queue next attack)
+    if (isAttacking) {
+      this.bufferedAttack = move;
+      return;
     }
-  }
 
-  /**
-   * Get current attack type (for determining enemy reaction)
-   */
-  getAttackType(): string | null {
-    return this.currentAttackType;
+    // C = punch, V = uppercut, X = kick, Z = sidekick, plus specials
+    this.performAttack(move);
   }
 
-  /**
-   * Set health bar reference
-   */
-  setHealthBar(healthBar: HealthBar): void {
-    this.healthBar = healthBar;
-  }
-
-  /**
-   * Get current health
-   */
-  getCurrentHealth(): number {
-    return this.currentHealth;
+  private onAttackComplete(): void {
+    // Check for buffered attack
+    if (this.bufferedAttack) {
+      const attack = this.bufferedAttack;
+      this.bufferedAttack = null;
+      this.performAttack(attack);
+    } else {
+      this.returnToIdle();
+    }
   }
 
   /**
-   * Get max health
+   * Perform an attack and remember it for chains
+   * @param attack - Move to perform
    */
-  getMaxHealth(): number {
-    return this.maxHealth;
-  }
+  private performAttack(attack: JuanMoveId): void {
+    this.startMove(attack, () => this.onAttackComplete());
 
-  /**
-   * Check if player is dead
-   */
-  isDead(): boolean {
-    return this.currentHealth <= 0;
-  }
+    const sound = ATTACK_SOUNDS[attack];
+    this.scene.sound.play(sound.key, { volume: sound.volume });
 
-  /**
-   * Check if player is invincible
-   */
-  getIsInvincible(): boolean {
-    return this.isInvincible;
+    this.lastMove = attack;
+    this.lastMoveTime = this.scene.time.now;
   }
 }
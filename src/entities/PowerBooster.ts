@@ -7,6 +7,9 @@
 
 import Phaser from 'phaser';
 import { BoosterBar } from '../ui/BoosterBar';
+import { VFXManager } from '../systems/VFXManager';
+import { GameEvents } from '../types';
+import { Fighter } from './Fighter';
 
 /** Power booster configuration */
 const CONFIG = {
@@ -22,11 +25,89 @@ const CONFIG = {
   BOOST_DURATION: 10000,
   /** Scale multiplier when powered up */
   POWER_SCALE: 1.2,
+  /** Player tint while powered up */
+  POWER_TINT: 0x00ffff,
 };
 
+/** Payload of GameEvents.POWER_BOOSTER_COLLECTED */
+export interface PowerBoosterEvent {
+  /** Fighter who collected the booster */
+  fighter: Fighter;
+}
+
+/** Tints of the glows active on each sprite, oldest first */
+const activeGlows = new WeakMap<Phaser.GameObjects.Sprite, number[]>();
+
+/**
+ * Grow and tint a fighter sprite with a short flash - the powered-up look
+ * (also used for a full super meter)
+ * @param scene - Scene running the tweens
+ * @param sprite - Sprite to power up
+ * @param tint - Tint color
+ * @param scaleMultiplier - Scale relative to the current scale
+ * @returns A function that shrinks the sprite back and removes the tint
+ * (relative to its scale at that time, so overlapping glows stack - the
+ * sprite keeps the tint of any glow still active)
+ */
+export function applyPowerGlow(
+  scene: Phaser.Scene,
+  sprite: Phaser.Physics.Arcade.Sprite,
+  tint: number,
+  scaleMultiplier: number
+): () => void {
+  // Scale up the sprite
+  const growTween = scene.tweens.add({
+    targets: sprite,
+    scaleX: sprite.scaleX * scaleMultiplier,
+    scaleY: sprite.scaleY * scaleMultiplier,
+    duration: 300,
+    ease: 'Back.easeOut',
+  });
+
+  // Add a glowing tint effect
+  const glows = activeGlows.get(sprite) ?? [];
+  glows.push(tint);
+  activeGlows.set(sprite, glows);
+  sprite.setTint(tint);
+
+  // Flash effect
+  scene.tweens.add({
+    targets: sprite,
+    alpha: { from: 0.5, to: 1 },
+    duration: 100,
+    repeat: 3,
+    yoyo: true,
+    onComplete: () => {
+      sprite.setAlpha(1); // Ensure alpha is reset to full
+    },
+  });
+
+  return () => {
+    // Scale back down
+    growTween.stop();
+    scene.tweens.add({
+      targets: sprite,
+      scaleX: sprite.scaleX / scaleMultiplier,
+      scaleY: sprite.scaleY / scaleMultiplier,
+      duration: 500,
+      ease: 'Power2',
+    });
+    // Remove this glow's tint, back to the latest glow still active
+    const index = glows.indexOf(tint);
+    if (index >= 0) glows.splice(index, 1);
+    const remaining = glows[glows.length - 1];
+    if (remaining !== undefined) {
+      sprite.setTint(remaining);
+    } else {
+      sprite.clearTint();
+    }
+  };
+}
+
 export class PowerBooster {
   private scene: Phaser.Scene;
   private sprite: Phaser.Physics.Arcade.Sprite;
+  private vfx: VFXManager;
   private startY: number;
   private bobTween!: Phaser.Tweens.Tween;
   private glowTween!: Phaser.Tweens.Tween;
@@ -35,8 +116,9 @@ export class PowerBooster {
   /** Track if player is currently powered up (shared across all boosters) */
   private static isPlayerPoweredUp: boolean = false;
 
-  constructor(scene: Phaser.Scene, x: number, y: number) {
+  constructor(scene: Phaser.Scene, x: number, y: number, vfx: VFXManager) {
     this.scene = scene;
+    this.vfx = vfx;
     this.startY = y;
 
     // Create the sprite
@@ -96,7 +178,7 @@ export class PowerBooster {
   /**
    * Called when player collects the power booster
    */
-  collect(playerSprite: Phaser.Physics.Arcade.Sprite, boosterBar?: BoosterBar): void {
+  collect(fighter: Fighter, boosterBar?: BoosterBar): void {
     if (this.isCollected) return;
     if (PowerBooster.isPlayerPoweredUp) return; // Can't collect while already powered up
     this.isCollected = true;
@@ -107,6 +189,8 @@ export class PowerBooster {
 
     // Play power-up sound
     this.scene.sound.play('power-up-sfx', { volume: 0.7 });
+    const event: PowerBoosterEvent = { fighter };
+    this.scene.events.emit(GameEvents.POWER_BOOSTER_COLLECTED, event);
 
     // Activate the booster bar UI
     if (boosterBar) {
@@ -126,80 +210,27 @@ export class PowerBooster {
     });
 
     // Apply power boost to player
-    this.applyPowerBoost(playerSprite);
+    this.applyPowerBoost(fighter.getSprite());
 
     // Particle burst effect
-    this.createCollectionParticles();
+    this.vfx.boosterBurst(this.sprite.x, this.sprite.y);
   }
 
   private applyPowerBoost(playerSprite: Phaser.Physics.Arcade.Sprite): void {
-    const originalScaleX = playerSprite.scaleX;
-    const originalScaleY = playerSprite.scaleY;
-
     // Mark player as powered up
     PowerBooster.isPlayerPoweredUp = true;
 
-    // Scale up the player (power boost!)
-    this.scene.tweens.add({
-      targets: playerSprite,
-      scaleX: originalScaleX * CONFIG.POWER_SCALE,
-      scaleY: originalScaleY * CONFIG.POWER_SCALE,
-      duration: 300,
-      ease: 'Back.easeOut',
-    });
-
-    // Add a glowing tint effect to player
-    playerSprite.setTint(0x00ffff);
-
-    // Flash effect
-    this.scene.tweens.add({
-      targets: playerSprite,
-      alpha: { from: 0.5, to: 1 },
-      duration: 100,
-      repeat: 3,
-      yoyo: true,
-      onComplete: () => {
-        playerSprite.setAlpha(1); // Ensure alpha is reset to full
-      },
-    });
+    // Scale up and tint the player (power boost!)
+    const revert = applyPowerGlow(this.scene, playerSprite, CONFIG.POWER_TINT, CONFIG.POWER_SCALE);
 
     // Revert after duration
     this.scene.time.delayedCall(CONFIG.BOOST_DURATION, () => {
-      // Scale back down
-      this.scene.tweens.add({
-        targets: playerSprite,
-        scaleX: originalScaleX,
-        scaleY: originalScaleY,
-        duration: 500,
-        ease: 'Power2',
-      });
-      // Remove tint
-      playerSprite.clearTint();
+      revert();
       // Allow collecting boosters again
       PowerBooster.isPlayerPoweredUp = false;
     });
   }
 
-  private createCollectionParticles(): void {
-    // Create particle emitter for collection effect
-    const particles = this.scene.add.particles(this.sprite.x, this.sprite.y, 'power-booster', {
-      scale: { start: 0.05, end: 0 },
-      speed: { min: 50, max: 150 },
-      angle: { min: 0, max: 360 },
-      lifespan: 500,
-      quantity: 8,
-      blendMode: 'ADD',
-    });
-
-    // Stop emitting after burst
-    particles.explode(8);
-
-    // Clean up after particles fade
-    this.scene.time.delayedCall(600, () => {
-      particles.destroy();
-    });
-  }
-
   /** Get the sprite for collision detection */
   getSprite(): Phaser.Physics.Arcade.Sprite {
     return this.sprite;
@@ -0,0 +1,126 @@
+/**
+ * Projectile Entity
+ * ==================
+ * A ranged attack in flight, fired by a move with MoveData.projectile.
+ * Uses composition pattern to wrap a Phaser sprite: it flies straight or
+ * arcs under gravity, fizzles out after its lifetime and breaks on
+ * platforms. GameScene resolves its hits like a melee hit of the move.
+ */
+
+import Phaser from 'phaser';
+import { Fighter } from './Fighter.ts';
+import { MoveData, ProjectileData } from '../combat/MoveData.ts';
+
+/** Projectile configuration */
+const CONFIG = {
+  /** In front of the fighters */
+  DEPTH: 11,
+  /** Spin while flying (degrees per second) */
+  SPIN_SPEED: 540,
+  /** Pop when destroyed (ms) */
+  FIZZLE_DURATION: 150,
+};
+
+export class Projectile {
+  /** Fighter that fired the projectile */
+  readonly owner: Fighter;
+  /** Move that fired it (damage, knockback, hitstun...) */
+  readonly move: MoveData;
+
+  private scene: Phaser.Scene;
+  private sprite: Phaser.Physics.Arcade.Sprite;
+  private groundCollider: Phaser.Physics.Arcade.Collider;
+  private data: ProjectileData;
+  private direction: -1 | 1;
+  private lifetime: number;
+  private destroyed: boolean = false;
+
+  /**
+   * @param owner - Fighter firing the projectile (spawns relative to its feet and facing)
+   * @param move - Move that fired it
+   * @param data - The move's projectile
+   * @param ground - Platforms the projectile breaks on
+   */
+  constructor(
+    scene: Phaser.Scene,
+    owner: Fighter,
+    move: MoveData,
+    data: ProjectileData,
+    ground: Phaser.Physics.Arcade.StaticGroup
+  ) {
+    this.scene = scene;
+    this.owner = owner;
+    this.move = move;
+    this.data = data;
+    this.direction = owner.isFacingRight() ? 1 : -1;
+    this.lifetime = this.data.lifetime;
+
+    const ownerSprite = owner.getSprite();
+    const x = ownerSprite.x + this.direction * this.data.spawnX;
+    const y = ownerSprite.y + this.data.spawnY;
+
+    this.sprite = scene.physics.add.sprite(x, y, this.data.texture);
+    this.sprite.setDepth(CONFIG.DEPTH);
+    this.sprite.setFlipX(this.direction < 0);
+
+    // Straight shots ignore gravity; arcing ones are lobbed upward
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    body.setAllowGravity(this.data.arc > 0);
+    body.setVelocity(this.direction * this.data.speed, -this.data.arc);
+
+    this.groundCollider = scene.physics.add.collider(this.sprite, ground, () => this.destroy());
+  }
+
+  /**
+   * Advance the lifetime and spin
+   * @param delta - Time elapsed since last frame in ms
+   */
+  update(delta: number): void {
+    if (this.destroyed) return;
+
+    this.sprite.angle += this.direction * CONFIG.SPIN_SPEED * delta / 1000;
+
+    this.lifetime -= delta;
+    if (this.lifetime <= 0) {
+      this.destroy();
+    }
+  }
+
+  /** Get the hitbox in world space (centered on the sprite) */
+  getHitbox(): Phaser.Geom.Rectangle {
+    return new Phaser.Geom.Rectangle(
+      this.sprite.x - this.data.width / 2,
+      this.sprite.y - this.data.height / 2,
+      this.data.width,
+      this.data.height
+    );
+  }
+
+  /** Get the sprite */
+  getSprite(): Phaser.Physics.Arcade.Sprite {
+    return this.sprite;
+  }
+
+  /** Check if still flying (not hit, broken or fizzled out) */
+  isActive(): boolean {
+    return !this.destroyed;
+  }
+
+  /** Break the projectile with a quick pop */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    this.groundCollider.destroy();
+    (this.sprite.body as Phaser.Physics.Arcade.Body).enable = false;
+
+    this.scene.tweens.add({
+      targets: this.sprite,
+      scale: this.sprite.scale * 1.8,
+      alpha: 0,
+      duration: CONFIG.FIZZLE_DURATION,
+      ease: 'Power2',
+      onComplete: () => this.sprite.destroy(),
+    });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Robot Entity
+ * =============
+ * A slow, heavy enemy that keeps its distance and fires energy blasts,
+ * with a claw swipe and a crushing grab for players who get close.
+ * Uses the same telegraphed attacks and AI control API as Blockhead.
+ *
+ * Only the robot's design pose exists so far (no sprite sheets), so every
+ * animation holds that pose for the frames its move data needs.
+ */
+
+import Phaser from 'phaser';
+import { Enemy, EnemyCharacter } from './Enemy.ts';
+import { FighterConfig } from './Fighter.ts';
+import { FighterControls } from '../systems/FighterControls.ts';
+import { ROBOT_MOVES } from '../combat/moves/robot.ts';
+import { ROBOT_HURTBOXES } from '../combat/hurtboxes/robot.ts';
+
+/** Robot configuration */
+const CONFIG: FighterConfig = {
+  // Frame dimensions (must match the robot-idle image in PreloadScene)
+  FRAME_WIDTH: 300,
+  FRAME_HEIGHT: 400,
+  // Scale to fit the game
+  SCALE: 0.8,
+  // Physics body size (in texture coordinates)
+  BODY_WIDTH: 130,
+  BODY_HEIGHT: 270,
+  // Character feet are near the bottom of the frame with some padding
+  CHAR_BOTTOM_PADDING: 30,
+  ORIGIN_Y: 1, // Origin at feet
+  // Movement settings - slower and heavier than Blockhead
+  MOVE_SPEED: 170,
+  ACCELERATION: 900,
+  DRAG: 1000,
+  JUMP_VELOCITY: -550,
+  MAX_JUMPS: 1, // Only jump from the ground
+  JUMP_BUFFER_TIME: 0,
+  // Health system
+  MAX_HEALTH: 340,
+  // Guard system
+  GUARD_MAX: 100,
+  GUARD_REGEN_RATE: 10, // guard per second
+  GUARD_REGEN_DELAY: 1400, // ms
+  GUARD_BREAK_STUN: 1100, // ms
+  CHIP_DAMAGE_RATIO: 0.2,
+  BLOCK_PUSHBACK_RATIO: 0.4,
+};
+
+/** Boss Robot - tougher, and shrugs off the first hits of a combo */
+const BOSS_CONFIG: FighterConfig = {
+  ...CONFIG,
+  MAX_HEALTH: 500,
+  GUARD_MAX: 140,
+  ARMOR: { type: 'hit', hits: 2 },
+};
+
+const ROBOT: EnemyCharacter = {
+  name: 'Robot',
+  headOffset: 64,
+  config: CONFIG,
+  bossConfig: BOSS_CONFIG,
+  animations: {
+    idle: 'robot-idle',
+    run: 'robot-running',
+    jump: 'robot-idle', // No jump animation available
+    hurt: 'robot-hurt',
+  },
+  moves: ROBOT_MOVES,
+  hurtboxes: ROBOT_HURTBOXES,
+};
+
+/** Frames per animation - holds the single pose (see header) */
+const ROBOT_ANIMATIONS: { key: string; frames: number; frameRate: number; repeat: number }[] = [
+  { key: 'robot-idle', frames: 1, frameRate: 1, repeat: -1 },
+  { key: 'robot-running', frames: 1, frameRate: 1, repeat: -1 },
+  { key: 'robot-hurt', frames: 4, frameRate: 12, repeat: 0 },
+  { key: 'robot-punch', frames: 7, frameRate: 12, repeat: 0 }, // startup 4, active 1, recovery 2
+  { key: 'robot-throw', frames: 6, frameRate: 12, repeat: 0 }, // startup 3, active 2, recovery 1
+  { key: 'robot-blast', frames: 8, frameRate: 12, repeat: 0 }, // startup 4, active 1, recovery 3
+];
+
+export class Robot extends Enemy {
+  /**
+   * @param boss - Boss variant: more health and guard, wears hit armor
+   */
+  constructor(scene: Phaser.Scene, x: number, y: number, controls: FighterControls, boss: boolean = false) {
+    super(scene, x, y, controls, boss, ROBOT);
+  }
+
+  protected createAnimations(): void {
+    for (const { key, frames, frameRate, repeat } of ROBOT_ANIMATIONS) {
+      // Only create animations if they don't already exist
+      if (this.scene.anims.exists(key)) continue;
+
+      this.scene.anims.create({
+        key,
+        frames: Array.from({ length: frames }, () => ({ key: 'robot-idle' })),
+        frameRate,
+        repeat,
+      });
+    }
+  }
+}
@@ -6,20 +6,65 @@
 
 import Phaser from 'phaser';
 import { GAME_WIDTH, GAME_HEIGHT } from '../config/GameConfig.ts';
+import { Fighter, FighterState, HitEvent, WhiffEvent } from '../entities/Fighter.ts';
+import { HurtboxRegion } from '../combat/HurtboxData.ts';
+import { MoveData, getMoveReach } from '../combat/MoveData.ts';
+import { AttackInstance } from '../combat/AttackInstance.ts';
+import { PARRY_REWARDS, PARRY_REACH_MARGIN, isParryableMove } from '../combat/Parry.ts';
+import { SUPER_METER, SuperEvent } from '../combat/SuperMeter.ts';
+import { Combo } from '../combat/Combo.ts';
 import { Player } from '../entities/Player.ts';
 import { Enemy } from '../entities/Enemy.ts';
+import { Robot } from '../entities/Robot.ts';
 import { PowerBooster } from '../entities/PowerBooster.ts';
+import { Projectile } from '../entities/Projectile.ts';
 import { InputManager } from '../systems/InputManager.ts';
+import { VFXManager } from '../systems/VFXManager.ts';
+import { CameraDirector } from '../systems/CameraDirector.ts';
+import { MatchStats } from '../systems/MatchStats.ts';
 import { BoosterBar } from '../ui/BoosterBar.ts';
+import { SuperMeterBar } from '../ui/SuperMeterBar.ts';
 import { PauseMenu } from '../ui/PauseMenu.ts';
 import { HealthBar } from '../ui/HealthBar.ts';
-import { GameOverOverlay } from '../ui/GameOverOverlay.ts';
-import { EnemyAIController } from '../ai/EnemyAIController.ts';
-// import { getEnemyAIAction, GameState, CollisionObject } from '../ai/ai-access.ts';
+import { GuardMeter } from '../ui/GuardMeter.ts';
+import { ComboCounter } from '../ui/ComboCounter.ts';
+import { GameOverOverlay, MatchFinish, MatchWinner } from '../ui/GameOverOverlay.ts';
+import { RoundPips } from '../ui/RoundPips.ts';
+import { RoundTimer } from '../ui/RoundTimer.ts';
+import { EnemyController, createEnemyController, createEnemyControls } from '../ai/EnemyController.ts';
+import { getMatchConfig } from '../config/MatchConfig.ts';
+import { GameEvents } from '../types/index.ts';
 
 /** Height of the ground collision floor in pixels */
 const GROUND_HEIGHT = 130;
 
+/** Dust kicked up at the fighters' feet */
+const DUST = {
+  LANDING_INTENSITY: 0.6,
+  KNOCKDOWN_INTENSITY: 1.2, // Juggled fighters hitting the ground
+  SKID_INTENSITY: 0.4,
+  SKID_MIN_SPEED: 150, // Knockback speed that kicks up dust (pixels/second)
+  SKID_INTERVAL: 80, // ms between skid puffs
+};
+
+/** Match format */
+const ROUNDS = {
+  BEST_OF: 3,
+  TIME_LIMIT: 99, // Seconds per round; at time over the higher health % wins the round
+  NEXT_ROUND_DELAY: 2500, // ms from a KO to the next round's intro
+  INTRO_DURATION: 1200, // ms the "ROUND 2" / "FINAL ROUND" title shows before the countdown
+  ANNOUNCEMENT_Y: 260, // Round titles, countdown and K.O. (below the HUD)
+};
+
+/** Where a hit connected */
+interface HitContact {
+  /** Defender's body region with the most overlap */
+  region: HurtboxRegion;
+  /** Center of that overlap (world space) */
+  x: number;
+  y: number;
+}
+
 export class GameScene extends Phaser.Scene {
   private player!: Player;
   private inputManager!: InputManager;
@@ -27,20 +72,32 @@ export class GameScene extends Phaser.Scene {
   private powerBoosters: PowerBooster[] = [];
   private enemies: Enemy[] = [];
   private boosterBar!: BoosterBar;
+  private superMeterBar!: SuperMeterBar;
   private pauseMenu!: PauseMenu;
   private gameOverOverlay!: GameOverOverlay;
   private playerHealthBar!: HealthBar;
   private enemyHealthBars: Map<Enemy, HealthBar> = new Map();
+  private guardMeters: GuardMeter[] = [];
+  private comboCounters: Map<Fighter, ComboCounter> = new Map(); // Keyed by attacker
+  private combos: Map<Fighter, Combo<Fighter>> = new Map(); // Combo being taken, keyed by defender
+  private lastAttacks: Map<Fighter, AttackInstance | null> = new Map(); // For whiff detection
+  private matchStats!: MatchStats;
+  private projectiles: Projectile[] = [];
+  private vfx!: VFXManager;
+  private cameraDirector!: CameraDirector;
+  private dustTrackers: Map<Fighter, { airborne: boolean; timer: number }> = new Map();
   private gameEnded: boolean = false;
+  private roundOver: boolean = false; // KO'd, waiting for the next round
+  private round: number = 1;
+  private roundWins: Record<'player' | 'enemy', number> = { player: 0, enemy: 0 };
+  private roundPips!: RoundPips;
+  private roundTimer!: RoundTimer;
+  private roundTimeLeft: number = 0; // ms
+  private startPositions: Map<Fighter, { x: number; y: number; facingRight: boolean }> = new Map();
   private gameplayLogo!: Phaser.GameObjects.Image;
 
-  // Traditional AI controllers (FSM-based)
-  private enemyAIControllers: EnemyAIController[] = [];
-
-  // LLM AI control system (deprecated - using traditional AI now)
-  // private aiUpdateInterval: number = 10; // ms between AI decisions
-  // private lastAIUpdate: number = 0;
-  // private isAIUpdating: boolean = false; // Prevent overlapping AI calls
+  // One controller per enemy (FSM, LLM, keyboard or replay - see MatchConfig)
+  private enemyControllers: EnemyController[] = [];
 
   constructor() {
     super({ key: 'Game' });
@@ -69,6 +126,10 @@ export class GameScene extends Phaser.Scene {
 
     // Reset game state flags (CRITICAL for scene restart)
     this.gameEnded = false;
+    this.roundOver = false;
+    this.round = 1;
+    this.roundWins = { player: 0, enemy: 0 };
+    this.roundTimeLeft = ROUNDS.TIME_LIMIT * 1000;
 
     // Reset update counter for logging (in case scene instance is reused)
     this.updateCounter = 0;
@@ -79,6 +140,8 @@ export class GameScene extends Phaser.Scene {
     this.inputManager = new InputManager(this);
     console.log('[GameScene] InputManager created');
 
+    this.vfx = new VFXManager(this);
+
     this.createPlatforms();
     console.log('[GameScene] Platforms created');
 
@@ -91,6 +154,9 @@ export class GameScene extends Phaser.Scene {
     this.createBoosterBar();
     console.log('[GameScene] BoosterBar created');
 
+    this.createSuperMeterBar();
+    console.log('[GameScene] SuperMeterBar created');
+
     this.createPowerBoosters();
     console.log('[GameScene] PowerBoosters created');
 
@@ -104,6 +170,15 @@ export class GameScene extends Phaser.Scene {
     );
     console.log('[GameScene] Counter-dodge system linked');
 
+    // Parry: a counter-dodge timed on the attack staggers the attacking enemy
+    this.player.setParryHandler(
+      () => this.getParryTarget()?.getAttackTimingOffset() ?? null,
+      (grade) => this.getParryTarget()?.stagger(PARRY_REWARDS[grade].stagger)
+    );
+
+    // Super moves freeze everyone else and zoom in on the attacker
+    this.events.on(GameEvents.SUPER, this.onSuperStarted, this);
+
     this.setupCollisions();
     console.log('[GameScene] Collisions set up');
 
@@ -120,18 +195,34 @@ export class GameScene extends Phaser.Scene {
     console.log('[GameScene] HealthBars created');
 
     this.createGameplayLogo();
+    this.roundPips = new RoundPips(this, this.getWinsNeeded());
+    this.roundTimer = new RoundTimer(this, ROUNDS.TIME_LIMIT);
+
+    // Results screen stats, collected from combat events
+    this.matchStats = new MatchStats(this, [
+      { fighter: this.player, name: 'Juan' },
+      ...this.enemies.map((enemy) => ({ fighter: enemy as Fighter, name: enemy.getName() })),
+    ]);
 
     // Countdown before match starts (3, 2, 1) - movement gated by registry 'matchStarted'
     this.registry.set('matchStarted', false);
-    this.createCountdown();
+    this.createCountdown(this.getRoundTitle());
 
     // Register shutdown handler to clean up event listeners
     this.events.once('shutdown', this.shutdown, this);
   }
 
-  private createCountdown(): void {
-    const countdownY = 140;
-    const countdownText = this.add.text(GAME_WIDTH / 2, countdownY, '3', {
+  /**
+   * Count down (3, 2, 1) and start the round
+   * @param title - Round title shown before the count (e.g. "ROUND 2")
+   */
+  private createCountdown(title?: string): void {
+    const introDelay = title ? ROUNDS.INTRO_DURATION : 0;
+    if (title) {
+      this.showAnnouncement(title, ROUNDS.INTRO_DURATION);
+    }
+
+    const countdownText = this.add.text(GAME_WIDTH / 2, ROUNDS.ANNOUNCEMENT_Y, '3', {
       fontFamily: 'Quantico, Russo One, Arial',
       fontSize: '120px',
       fontStyle: 'bold',
@@ -140,9 +231,12 @@ export class GameScene extends Phaser.Scene {
       strokeThickness: 8,
     });
     countdownText.setOrigin(0.5, 0.5);
+    countdownText.setScrollFactor(0);
     countdownText.setDepth(500);
+    countdownText.setVisible(false);
 
     const showNumber = (n: number) => {
+      countdownText.setVisible(true);
       countdownText.setText(String(n));
       countdownText.setScale(0.5);
       this.tweens.add({
@@ -154,19 +248,52 @@ export class GameScene extends Phaser.Scene {
       });
     };
 
-    this.time.delayedCall(0, () => showNumber(3));
-    this.time.delayedCall(1000, () => showNumber(2));
-    this.time.delayedCall(2000, () => showNumber(1));
-    this.time.delayedCall(3000, () => {
+    this.time.delayedCall(introDelay, () => showNumber(3));
+    this.time.delayedCall(introDelay + 1000, () => showNumber(2));
+    this.time.delayedCall(introDelay + 2000, () => showNumber(1));
+    this.time.delayedCall(introDelay + 3000, () => {
       countdownText.destroy();
       this.registry.set('matchStarted', true);
       this.gameplayLogo.setVisible(true);
     });
   }
 
+  /**
+   * Big centered text that pops in, holds, then fades out (round titles, K.O.)
+   * @param duration - ms before it's gone
+   */
+  private showAnnouncement(text: string, duration: number): void {
+    const announcement = this.add.text(GAME_WIDTH / 2, ROUNDS.ANNOUNCEMENT_Y, text, {
+      fontFamily: 'Quantico, Russo One, Arial',
+      fontSize: '96px',
+      fontStyle: 'bold',
+      color: '#fc4513',
+      stroke: '#000000',
+      strokeThickness: 8,
+    });
+    announcement.setOrigin(0.5, 0.5);
+    announcement.setScrollFactor(0);
+    announcement.setDepth(500);
+    announcement.setScale(0.5);
+
+    this.tweens.add({
+      targets: announcement,
+      scale: 1,
+      duration: 250,
+      ease: 'Back.easeOut',
+    });
+    this.tweens.add({
+      targets: announcement,
+      alpha: 0,
+      delay: duration - 250,
+      duration: 250,
+      onComplete: () => announcement.destroy(),
+    });
+  }
+
   private createPauseMenu(): void {
-    // Pass a callback to check if pausing is allowed (not when game is over)
-    this.pauseMenu = new PauseMenu(this, () => !this.gameEnded);
+    // Pass a callback to check if pausing is allowed (not between rounds or when game is over)
+    this.pauseMenu = new PauseMenu(this, () => !this.gameEnded && !this.roundOver);
   }
 
   private createGameOverOverlay(): void {
@@ -176,9 +303,8 @@ export class GameScene extends Phaser.Scene {
   private createHealthBars(): void {
     // Head offset accounts for empty space at top of sprite frames (in display pixels)
     // Player: body starts at y=170 in 400px frame, head ~50px above body = 120px empty * 0.65 scale
-    // Enemy: similar proportions at 0.8 scale
+    // Enemies: each character knows its own (see EnemyCharacter.headOffset)
     const playerHeadOffset = 117;  // Display pixels from top of frame to actual head
-    const enemyHeadOffset = 110;   // Display pixels from top of frame to actual head
 
     // Create health bar for player
     this.playerHealthBar = new HealthBar(
@@ -197,17 +323,39 @@ export class GameScene extends Phaser.Scene {
         enemy.getSprite(),
         enemy.getMaxHealth(),
         'ENEMY',
-        enemyHeadOffset
+        enemy.getHeadOffset()
       );
       enemy.setHealthBar(enemyHealthBar);
       this.enemyHealthBars.set(enemy, enemyHealthBar);
     });
+
+    // Guard meters sit just under each health bar
+    const playerGuardMeter = new GuardMeter(this, this.player.getSprite(), this.player.getMaxGuard(), playerHeadOffset);
+    this.player.setGuardMeter(playerGuardMeter);
+    this.guardMeters.push(playerGuardMeter);
+
+    this.enemies.forEach((enemy) => {
+      const enemyGuardMeter = new GuardMeter(this, enemy.getSprite(), enemy.getMaxGuard(), enemy.getHeadOffset());
+      enemy.setGuardMeter(enemyGuardMeter);
+      this.guardMeters.push(enemyGuardMeter);
+    });
+
+    // Combo counters pop above the attacker's health bar
+    this.comboCounters.set(this.player, new ComboCounter(this, this.player.getSprite(), playerHeadOffset));
+    this.enemies.forEach((enemy) => {
+      this.comboCounters.set(enemy, new ComboCounter(this, enemy.getSprite(), enemy.getHeadOffset()));
+    });
   }
 
   private createBoosterBar(): void {
     this.boosterBar = new BoosterBar(this);
   }
 
+  private createSuperMeterBar(): void {
+    this.superMeterBar = new SuperMeterBar(this, SUPER_METER.MAX);
+    this.player.setSuperMeterBar(this.superMeterBar);
+  }
+
   private createPlatforms(): void {
     this.ground = this.physics.add.staticGroup();
 
@@ -276,24 +424,39 @@ export class GameScene extends Phaser.Scene {
   private createPowerBoosters(): void {
     // Spawn power boosters at strategic locations
     // On the ground area
-    this.powerBoosters.push(new PowerBooster(this, 400, GAME_HEIGHT - GROUND_HEIGHT - 50));
+    this.powerBoosters.push(new PowerBooster(this, 400, GAME_HEIGHT - GROUND_HEIGHT - 50, this.vfx));
 
     // Near the floating platforms
-    this.powerBoosters.push(new PowerBooster(this, 600, GAME_HEIGHT - 400));
+    this.powerBoosters.push(new PowerBooster(this, 600, GAME_HEIGHT - 400, this.vfx));
 
     // On top of a platform
-    this.powerBoosters.push(new PowerBooster(this, 1100, GAME_HEIGHT - 530));
+    this.powerBoosters.push(new PowerBooster(this, 1100, GAME_HEIGHT - 530, this.vfx));
   }
 
   private createEnemies(): void {
-    // Spawn an enemy at the right edge of the canvas, facing left (toward player spawn)
-    const enemy = new Enemy(this, GAME_WIDTH - 100, GAME_HEIGHT - GROUND_HEIGHT, this.inputManager);
-    enemy.getSprite().setDepth(10); // Same depth as player
-    this.enemies.push(enemy);
-
-    // Create traditional AI controller for the enemy
-    const aiController = new EnemyAIController(enemy, this.player);
-    this.enemyAIControllers.push(aiController);
+    const matchConfig = getMatchConfig(this.registry);
+
+    matchConfig.enemies.forEach((slot, index) => {
+      // Spawn from the right edge of the canvas inward, facing left (toward player spawn)
+      const x = GAME_WIDTH - 100 - index * 150;
+      const y = GAME_HEIGHT - GROUND_HEIGHT;
+      const controls = createEnemyControls(slot.controller, this.inputManager);
+      const enemy = slot.character === 'robot'
+        ? new Robot(this, x, y, controls, slot.boss)
+        : new Enemy(this, x, y, controls, slot.boss);
+      enemy.getSprite().setDepth(10); // Same depth as player
+      this.enemies.push(enemy);
+      this.startPositions.set(enemy, { x, y, facingRight: false });
+
+      this.enemyControllers.push(createEnemyController(slot.controller, enemy, {
+        scene: this,
+        player: this.player,
+        inputManager: this.inputManager,
+        ground: this.ground,
+        replay: slot.replay,
+      }));
+      console.log(`[GameScene] Enemy ${index + 1}: ${enemy.getName()} driven by ${slot.controller}${slot.boss ? ' (boss)' : ''}`);
+    });
   }
 
   private createPlayer(): void {
@@ -302,6 +465,7 @@ export class GameScene extends Phaser.Scene {
     // With origin (0.5, 1), this y is where the feet will be
     const startY = GAME_HEIGHT - GROUND_HEIGHT;
     this.player = new Player(this, startX, startY, this.inputManager);
+    this.startPositions.set(this.player, { x: startX, y: startY, facingRight: true });
 
     // Set player depth higher than floor visual
     this.player.getSprite().setDepth(10);
@@ -323,7 +487,7 @@ export class GameScene extends Phaser.Scene {
         booster.getSprite(),
         () => {
           if (!booster.isAlreadyCollected()) {
-            booster.collect(this.player.getSprite(), this.boosterBar);
+            booster.collect(this.player, this.boosterBar);
           }
         },
         undefined,
@@ -333,8 +497,9 @@ export class GameScene extends Phaser.Scene {
   }
 
   private setupCamera(): void {
-    this.cameras.main.setBounds(0, 0, GAME_WIDTH, GAME_HEIGHT);
-    this.cameras.main.startFollow(this.player.getSprite(), true, 0.1, 0.1);
+    // Frames every fighter; HUD (scroll factor 0) stays on a fixed camera
+    const sprites = [this.player, ...this.enemies].map((fighter) => fighter.getSprite());
+    this.cameraDirector = new CameraDirector(this, sprites);
   }
 
   private createGameplayLogo(): void {
@@ -352,10 +517,8 @@ export class GameScene extends Phaser.Scene {
   private updateCounter = 0;
   
   update(): void {
-    // Keep gameplay logo fixed at top center (camera follows player)
-    if (this.gameplayLogo?.active) {
-      this.gameplayLogo.setX(this.cameras.main.scrollX + GAME_WIDTH / 2);
-    }
+    // Camera keeps moving while paused and after the KO
+    this.cameraDirector?.update(this.game.loop.delta);
 
     try {
       // Log first few updates to verify update loop is running
@@ -364,8 +527,8 @@ export class GameScene extends Phaser.Scene {
         this.updateCounter++;
       }
       
-      // Don't update if game is ended
-      if (this.gameEnded) {
+      // Don't update if game is ended or between rounds
+      if (this.gameEnded || this.roundOver) {
         return;
       }
 
@@ -385,65 +548,37 @@ export class GameScene extends Phaser.Scene {
       enemy.update();
     });
 
-    // Update AI controllers (traditional FSM-based AI)
+    // Update enemy controllers
     const delta = this.game.loop.delta;
-    this.enemyAIControllers.forEach((controller, index) => {
+    this.enemyControllers.forEach((controller, index) => {
       if (!this.enemies[index].isDead()) {
         controller.update(delta);
       }
     });
 
-    // LLM-based AI (deprecated - using traditional AI now)
-    // this.updateEnemyAI();
+    // Fire and move projectiles
+    this.fireProjectiles();
+    this.updateProjectiles(delta);
 
     // Check for combat hits
     this.checkPlayerAttacks();
     this.checkEnemyAttacks();
+    this.checkProjectileHits();
+    this.updateCombos();
+    this.checkWhiffs();
+    this.updateDust(delta);
 
-    // Check for death
+    // Check for death, then the clock
     this.checkDeath();
+    this.updateRoundTimer(delta);
   }
 
   /**
    * Check if player attacks are hitting enemies
    */
   private checkPlayerAttacks(): void {
-    // Get player's attack hitbox
-    const attackHitbox = this.player.getAttackHitbox();
-    if (!attackHitbox) {
-      return; // Not attacking or not in hit frame
-    }
-
-    // Check each enemy
     this.enemies.forEach((enemy) => {
-      // Skip if enemy is dead or invincible
-      if (enemy.isDead() || enemy.getIsInvincible()) {
-        return;
-      }
-
-      // Get enemy sprite bounds
-      const enemySprite = enemy.getSprite();
-      const enemyBody = enemySprite.body as Phaser.Physics.Arcade.Body;
-
-      // Calculate enemy bounds from body
-      const enemyLeft = enemySprite.x - enemyBody.width / 2;
-      const enemyRight = enemySprite.x + enemyBody.width / 2;
-      const enemyTop = enemySprite.y - enemyBody.height / 2;
-      const enemyBottom = enemySprite.y + enemyBody.height / 2;
-
-      // Check if attack hitbox overlaps with enemy bounds
-      const hitboxRight = attackHitbox.x + attackHitbox.width;
-      const hitboxBottom = attackHitbox.y + attackHitbox.height;
-
-      if (attackHitbox.x < enemyRight &&
-        hitboxRight > enemyLeft &&
-        attackHitbox.y < enemyBottom &&
-        hitboxBottom > enemyTop) {
-        // Deal damage, passing attack type for appropriate reaction animation
-        const damage = this.player.getAttackDamage();
-        const attackType = this.player.getAttackType();
-        enemy.takeDamage(damage, this.player.getSprite().x, attackType ?? undefined);
-      }
+      this.checkHit(this.player, enemy);
     });
   }
 
@@ -451,73 +586,425 @@ export class GameScene extends Phaser.Scene {
    * Check if enemy attacks are hitting the player
    */
   private checkEnemyAttacks(): void {
-    // Skip if player is dead or invincible
-    if (this.player.isDead() || this.player.getIsInvincible()) {
+    this.enemies.forEach((enemy) => {
+      this.checkHit(enemy, this.player);
+    });
+  }
+
+  /**
+   * Resolve the attacker's current move against the defender's hurtboxes
+   * Frame data and hitboxes come from the attacker's move table; the body
+   * region with the most overlap decides the defender's reaction, unless
+   * the defender blocks. Throws can't be blocked - they grab instead
+   */
+  private checkHit(attacker: Fighter, defender: Fighter): void {
+    // Skip if either fighter is dead or the defender is invincible
+    if (attacker.isDead() || defender.isDead() || defender.getIsInvincible()) {
       return;
     }
 
-    // Check each enemy
-    this.enemies.forEach((enemy) => {
-      // Skip if enemy is dead
-      if (enemy.isDead()) {
+    // Get the attack being performed and the hit event of the current frame
+    const attack = attacker.getCurrentAttack();
+    const hitIndex = attacker.getActiveHitIndex();
+    if (!attack || hitIndex < 0) {
+      return; // Not attacking or not in an active frame
+    }
+
+    // Each hit event connects at most once per target
+    if (attack.hasHit(defender, hitIndex)) {
+      return;
+    }
+
+    // Throws whiff on airborne or reeling defenders
+    if (attack.move.throw && !defender.canBeThrown()) {
+      return;
+    }
+
+    const contact = this.findHitContact(attacker.getAttackHitboxes(), defender);
+    if (contact) {
+      attack.registerHit(defender, hitIndex);
+      const move = attack.move;
+      if (move.throw) {
+        // Hold the defender for the tech window; the throw lands if they don't break free
+        defender.grab(attacker, () => {
+          this.landHit(attacker, defender, move, contact, attacker.getX());
+          attacker.applyHitstop(move.hitstop);
+          defender.applyHitstop(move.hitstop);
+        });
+      } else {
+        this.strike(attacker, defender, move, contact, attacker.getX());
+      }
+
+      // Freeze both fighters for a moment on impact
+      attacker.applyHitstop(move.hitstop);
+      defender.applyHitstop(move.hitstop);
+    }
+  }
+
+  /**
+   * Find where the hitboxes overlap the defender's hurtboxes the most
+   * @returns The contact, or null if nothing overlaps
+   */
+  private findHitContact(hitboxes: Phaser.Geom.Rectangle[], defender: Fighter): HitContact | null {
+    let contact: HitContact | null = null;
+    let bestOverlap = 0;
+    const overlap = new Phaser.Geom.Rectangle();
+    for (const hurtbox of defender.getHurtboxes()) {
+      for (const hitbox of hitboxes) {
+        if (!Phaser.Geom.Intersects.RectangleToRectangle(hitbox, hurtbox.rect)) continue;
+        Phaser.Geom.Rectangle.Intersection(hitbox, hurtbox.rect, overlap);
+        const area = overlap.width * overlap.height;
+        if (area > bestOverlap) {
+          bestOverlap = area;
+          contact = { region: hurtbox.region, x: overlap.centerX, y: overlap.centerY };
+        }
+      }
+    }
+    return contact;
+  }
+
+  /**
+   * Resolve a strike - blocked for chip damage, otherwise landed
+   * @param sourceX - Where the strike comes from (block direction and knockback)
+   */
+  private strike(attacker: Fighter, defender: Fighter, move: MoveData, contact: HitContact, sourceX: number): void {
+    const healthBefore = defender.getCurrentHealth();
+    if (!defender.blockHit(move, sourceX)) {
+      this.landHit(attacker, defender, move, contact, sourceX);
+    } else {
+      this.vfx.blockFlash(contact.x, contact.y, move.damage);
+      if (!move.super) attacker.gainSuper(move.damage * SUPER_METER.BLOCKED_RATIO);
+
+      const event: HitEvent = {
+        attacker,
+        defender,
+        move,
+        damage: healthBefore - defender.getCurrentHealth(),
+        blocked: true,
+        comboHits: 0,
+      };
+      this.events.emit(GameEvents.HIT, event);
+    }
+  }
+
+  /**
+   * Deal a move's damage to the defender (combo scaling, counter, meter and sparks)
+   * @param sourceX - Where the hit comes from (knockback direction)
+   */
+  private landHit(attacker: Fighter, defender: Fighter, move: MoveData, contact: HitContact, sourceX: number): void {
+    // Later hits of a combo deal less damage
+    const combo = this.continueCombo(attacker, defender);
+    const damage = Math.max(1, Math.round(move.damage * attacker.getDamageMultiplier() * combo.getDamageScaling()));
+    const healthBefore = defender.getCurrentHealth();
+    defender.takeDamage(damage, sourceX, move.knockback, contact.region, move.hitstun, move.launch);
+    this.vfx.impact(move.impact ?? 'spark', contact.x, contact.y, damage);
+    this.cameraDirector.onHit(damage);
+    combo.addHit(damage);
+    this.comboCounters.get(attacker)?.updateCombo(combo.getHits(), combo.getDamage());
+    if (!move.super) attacker.gainSuper(damage * SUPER_METER.DEAL_RATIO);
+
+    const event: HitEvent = {
+      attacker,
+      defender,
+      move,
+      damage: healthBefore - defender.getCurrentHealth(),
+      blocked: false,
+      comboHits: combo.getHits(),
+    };
+    this.events.emit(GameEvents.HIT, event);
+  }
+
+  /**
+   * Spawn the projectile of any move entering its first active frame
+   */
+  private fireProjectiles(): void {
+    const fighters: Fighter[] = [this.player, ...this.enemies];
+    fighters.forEach((fighter) => {
+      const attack = fighter.getCurrentAttack();
+      const projectile = attack?.move.projectile;
+      if (!attack || !projectile || fighter.getActiveHitIndex() < 0 || !attack.fireProjectile()) {
         return;
       }
+      this.projectiles.push(new Projectile(this, fighter, attack.move, projectile, this.ground));
+    });
+  }
+
+  /**
+   * Move projectiles along and drop the ones that are gone
+   */
+  private updateProjectiles(delta: number): void {
+    this.projectiles.forEach((projectile) => projectile.update(delta));
+    this.projectiles = this.projectiles.filter((projectile) => projectile.isActive());
+  }
 
-      // Get enemy's attack hitbox
-      const attackHitbox = enemy.getAttackHitbox();
-      if (!attackHitbox) {
-        return; // Not attacking or not in hit frame
+  /**
+   * Resolve projectiles against the other fighters
+   * Attacks and opposing projectiles knock them out of the air; a projectile
+   * reaching a hurtbox hits like its move would, then breaks
+   */
+  private checkProjectileHits(): void {
+    const fighters: Fighter[] = [this.player, ...this.enemies];
+
+    this.projectiles.forEach((projectile) => {
+      if (!projectile.isActive()) return;
+      const hitbox = projectile.getHitbox();
+
+      // Opposing projectiles cancel out
+      const clash = this.projectiles.find((other) =>
+        other !== projectile &&
+        other.isActive() &&
+        other.owner !== projectile.owner &&
+        Phaser.Geom.Intersects.RectangleToRectangle(hitbox, other.getHitbox())
+      );
+      if (clash) {
+        clash.destroy();
+        projectile.destroy();
+        return;
       }
 
-      // Get player sprite bounds
-      const playerSprite = this.player.getSprite();
-      const playerBody = playerSprite.body as Phaser.Physics.Arcade.Body;
-
-      // Calculate player bounds from body
-      const playerLeft = playerSprite.x - playerBody.width / 2;
-      const playerRight = playerSprite.x + playerBody.width / 2;
-      const playerTop = playerSprite.y - playerBody.height / 2;
-      const playerBottom = playerSprite.y + playerBody.height / 2;
-
-      // Check if attack hitbox overlaps with player bounds
-      const hitboxRight = attackHitbox.x + attackHitbox.width;
-      const hitboxBottom = attackHitbox.y + attackHitbox.height;
-
-      if (attackHitbox.x < playerRight &&
-        hitboxRight > playerLeft &&
-        attackHitbox.y < playerBottom &&
-        hitboxBottom > playerTop) {
-        // Deal damage
-        const damage = enemy.getAttackDamage();
-        this.player.takeDamage(damage, enemy.getSprite().x);
+      for (const defender of fighters) {
+        if (defender === projectile.owner || defender.isDead()) continue;
+
+        // Struck by an attack
+        if (defender.getAttackHitboxes().some((box) => Phaser.Geom.Intersects.RectangleToRectangle(box, hitbox))) {
+          projectile.destroy();
+          return;
+        }
+
+        if (defender.getIsInvincible()) continue;
+
+        const contact = this.findHitContact([hitbox], defender);
+        if (contact) {
+          const move = projectile.move;
+          this.strike(projectile.owner, defender, move, contact, projectile.getSprite().x);
+          defender.applyHitstop(move.hitstop);
+          projectile.destroy();
+          return;
+        }
       }
     });
   }
 
   /**
-   * Check if any character has died and trigger game over
+   * Kick up dust when a fighter lands (harder for juggled fighters) and
+   * while knockback skids them along the ground
+   */
+  private updateDust(delta: number): void {
+    const fighters: Fighter[] = [this.player, ...this.enemies];
+    fighters.forEach((fighter) => {
+      let tracker = this.dustTrackers.get(fighter);
+      if (!tracker) {
+        tracker = { airborne: false, timer: 0 };
+        this.dustTrackers.set(fighter, tracker);
+      }
+
+      const body = fighter.getSprite().body as Phaser.Physics.Arcade.Body;
+      const onGround = fighter.isOnGround();
+      if (tracker.airborne && onGround) {
+        const juggled = fighter.getState() === FighterState.JUGGLE || fighter.getState() === FighterState.KNOCKDOWN;
+        this.vfx.dust(body.center.x, body.bottom, juggled ? DUST.KNOCKDOWN_INTENSITY : DUST.LANDING_INTENSITY);
+      }
+      tracker.airborne = !onGround;
+
+      tracker.timer -= delta;
+      const skidding = onGround &&
+        (fighter.isInHitstun() || fighter.getState() === FighterState.BLOCKSTUN) &&
+        Math.abs(body.velocity.x) > DUST.SKID_MIN_SPEED;
+      if (skidding && tracker.timer <= 0) {
+        this.vfx.dust(body.center.x, body.bottom, DUST.SKID_INTENSITY);
+        tracker.timer = DUST.SKID_INTERVAL;
+      }
+    });
+  }
+
+  /**
+   * Get the combo a hit belongs to - the defender's current one if they're
+   * still reeling from the same attacker, otherwise a new one
+   */
+  private continueCombo(attacker: Fighter, defender: Fighter): Combo<Fighter> {
+    const combo = this.combos.get(defender);
+    if (combo && combo.attacker === attacker && defender.isInHitstun()) {
+      return combo;
+    }
+
+    if (combo) {
+      this.comboCounters.get(combo.attacker)?.endCombo();
+    }
+    const newCombo = new Combo(attacker);
+    this.combos.set(defender, newCombo);
+    return newCombo;
+  }
+
+  /**
+   * End combos whose defender left hitstun (recovered, blocked, knocked down or KO'd)
+   */
+  private updateCombos(): void {
+    this.combos.forEach((combo, defender) => {
+      if (!defender.isInHitstun()) {
+        this.comboCounters.get(combo.attacker)?.endCombo();
+        this.combos.delete(defender);
+      }
+    });
+  }
+
+  /**
+   * Report attacks that ended without connecting (GameEvents.WHIFF)
+   * Ranged moves don't count - their projectile does the hitting
+   */
+  private checkWhiffs(): void {
+    const fighters: Fighter[] = [this.player, ...this.enemies];
+    fighters.forEach((fighter) => {
+      const attack = fighter.getCurrentAttack();
+      const lastAttack = this.lastAttacks.get(fighter);
+      if (lastAttack && lastAttack !== attack && !lastAttack.hasConnected() && !lastAttack.move.projectile) {
+        const event: WhiffEvent = { attacker: fighter, move: lastAttack.move };
+        this.events.emit(GameEvents.WHIFF, event);
+      }
+      this.lastAttacks.set(fighter, attack);
+    });
+  }
+
+  /**
+   * Super move cinematic: freeze every other fighter for the freeze-frame
+   * while the camera punches in on the attacker
+   */
+  private onSuperStarted(event: SuperEvent): void {
+    const fighters: Fighter[] = [this.player, ...this.enemies];
+    fighters
+      .filter((fighter) => fighter.getSprite() !== event.sprite && !fighter.isDead())
+      .forEach((fighter) => fighter.applyHitstop(event.freezeFrames));
+
+    // Hitstop counts frames - hold the punch-in for the freeze (~60fps)
+    this.cameraDirector.onSuper(event.sprite, event.freezeFrames * 1000 / 60);
+  }
+
+  /**
+   * Check if any character has died and end the round
    */
   private checkDeath(): void {
-    if (this.gameEnded) {
+    if (this.gameEnded || this.roundOver) {
       return;
     }
 
     // Check if player is dead
     if (this.player.isDead()) {
-      this.gameEnded = true;
-      this.physics.pause();
-      this.gameOverOverlay.show('enemy');
+      this.endRound('enemy', 'ko', this.player);
       return;
     }
 
     // Check if all enemies are dead
     const allEnemiesDead = this.enemies.every((enemy) => enemy.isDead());
     if (allEnemiesDead && this.enemies.length > 0) {
+      this.endRound('player', 'ko', this.enemies[this.enemies.length - 1]);
+      return;
+    }
+  }
+
+  /**
+   * Run the round clock (it stops while paused, between rounds and during
+   * the countdown) and decide the round on health when it runs out
+   */
+  private updateRoundTimer(delta: number): void {
+    if (this.gameEnded || this.roundOver || !this.registry.get('matchStarted')) {
+      return;
+    }
+
+    this.matchStats.addPlayTime(delta);
+    this.roundTimeLeft = Math.max(0, this.roundTimeLeft - delta);
+    this.roundTimer.setTime(this.roundTimeLeft / 1000);
+    if (this.roundTimeLeft > 0) {
+      return;
+    }
+
+    // Time over - higher remaining health percentage takes the round
+    const playerHealth = this.player.getCurrentHealth() / this.player.getMaxHealth();
+    const enemyHealth = this.enemies.reduce((sum, enemy) => sum + enemy.getCurrentHealth(), 0) /
+      this.enemies.reduce((sum, enemy) => sum + enemy.getMaxHealth(), 0);
+    if (playerHealth === enemyHealth) {
+      this.endRound('draw', 'time');
+    } else {
+      this.endRound(playerHealth > enemyHealth ? 'player' : 'enemy', 'time');
+    }
+  }
+
+  /**
+   * Award a round (a draw counts for both sides), then start the next one
+   * or, once a side has won enough rounds, end the match
+   * @param finish - Knockout or time over
+   * @param knockedOut - Fighter the camera settles on after a KO
+   */
+  private endRound(winner: MatchWinner, finish: MatchFinish, knockedOut?: Fighter): void {
+    if (winner !== 'draw') {
+      this.roundWins[winner]++;
+    } else {
+      this.roundWins.player++;
+      this.roundWins.enemy++;
+    }
+    this.roundPips.setWins(this.roundWins.player, this.roundWins.enemy);
+    this.physics.pause();
+    if (knockedOut) {
+      this.cameraDirector.onKnockout(knockedOut.getSprite());
+    }
+
+    const playerTakes = this.roundWins.player >= this.getWinsNeeded();
+    const enemyTakes = this.roundWins.enemy >= this.getWinsNeeded();
+    if (playerTakes || enemyTakes) {
       this.gameEnded = true;
-      this.physics.pause();
-      this.gameOverOverlay.show('player');
+      const matchWinner: MatchWinner = playerTakes && enemyTakes ? 'draw' : playerTakes ? 'player' : 'enemy';
+      this.gameOverOverlay.show(matchWinner, finish, this.matchStats.getReport(matchWinner, finish, this.round));
       return;
     }
+
+    this.roundOver = true;
+    const announcement = finish === 'ko' ? 'K.O.' : winner === 'draw' ? 'DRAW' : 'TIME';
+    this.showAnnouncement(announcement, ROUNDS.NEXT_ROUND_DELAY - 500);
+    this.time.delayedCall(ROUNDS.NEXT_ROUND_DELAY, () => this.startNextRound());
+  }
+
+  /**
+   * Reset health and positions in place (no scene restart) and count the
+   * next round in
+   */
+  private startNextRound(): void {
+    this.round++;
+    console.log(`[GameScene] Starting round ${this.round}`);
+
+    this.projectiles.forEach((projectile) => projectile.destroy());
+    this.projectiles = [];
+    this.combos.clear();
+    this.comboCounters.forEach((comboCounter) => comboCounter.endCombo());
+    this.dustTrackers.clear();
+
+    this.startPositions.forEach((start, fighter) => fighter.resetForRound(start.x, start.y, start.facingRight));
+    this.enemyControllers.forEach((controller) => controller.reset());
+    this.cameraDirector.resetShot();
+    this.physics.resume();
+
+    this.roundTimeLeft = ROUNDS.TIME_LIMIT * 1000;
+    this.roundTimer.setTime(ROUNDS.TIME_LIMIT);
+
+    this.roundOver = false;
+    this.registry.set('matchStarted', false);
+    this.createCountdown(this.getRoundTitle());
+  }
+
+  /** Rounds a side has to win to take the match */
+  private getWinsNeeded(): number {
+    return Math.ceil(ROUNDS.BEST_OF / 2);
+  }
+
+  /**
+   * Title of the current round: "FINAL ROUND" when both sides are one win
+   * away, otherwise "ROUND n" (none for single-round matches)
+   */
+  private getRoundTitle(): string | undefined {
+    if (ROUNDS.BEST_OF <= 1) return undefined;
+
+    const matchPoint = this.getWinsNeeded() - 1;
+    if (this.roundWins.player === matchPoint && this.roundWins.enemy === matchPoint) {
+      return 'FINAL ROUND';
+    }
+    return `ROUND ${this.round}`;
   }
 
   /**
@@ -528,6 +1015,38 @@ export class GameScene extends Phaser.Scene {
     return this.enemies.some((enemy) => !enemy.isDead() && enemy.isShowingWarning());
   }
 
+  /**
+   * Get the enemy whose attack is closest to executing (the one a parry hits)
+   * Only attacks that can reach the player count - not throws, projectiles
+   * or swings at air from across the stage
+   */
+  private getParryTarget(): Enemy | null {
+    let target: Enemy | null = null;
+    let closest = Infinity;
+
+    for (const enemy of this.enemies) {
+      const offset = enemy.isDead() || !this.isParryableThreat(enemy) ? null : enemy.getAttackTimingOffset();
+      if (offset !== null && Math.abs(offset) < closest) {
+        closest = Math.abs(offset);
+        target = enemy;
+      }
+    }
+
+    return target;
+  }
+
+  /**
+   * Check if an enemy's telegraphed attack is a strike that can reach the player
+   */
+  private isParryableThreat(enemy: Enemy): boolean {
+    const move = enemy.getTelegraphedMove();
+    if (!move || !isParryableMove(move)) return false;
+
+    const dx = this.player.getX() - enemy.getX();
+    const facingPlayer = enemy.isFacingRight() ? dx >= 0 : dx <= 0;
+    return facingPlayer && Math.abs(dx) <= getMoveReach(move) + PARRY_REACH_MARGIN;
+  }
+
   /**
    * Get the time until the next enemy attack executes (in ms)
    * Returns 0 if no enemy is showing warning
@@ -548,140 +1067,6 @@ export class GameScene extends Phaser.Scene {
     return minTime === Infinity ? 0 : minTime;
   }
 
-  // ============================================================================
-  // LLM-based AI methods (deprecated - using traditional FSM AI now)
-  // ============================================================================
-  
-  // /**
-  //  * Collect all collision objects (platforms, ground) for AI decision making
-  //  */
-  // private getCollisionObjects(): CollisionObject[] {
-  //   const objects: CollisionObject[] = [];
-
-  //   this.ground.getChildren().forEach((child) => {
-  //     const platform = child as Phaser.Physics.Arcade.Sprite;
-  //     const body = platform.body as Phaser.Physics.Arcade.StaticBody;
-      
-  //     // Determine type based on size (ground is wider)
-  //     const isGround = body.width >= GAME_WIDTH * 0.5;
-      
-  //     objects.push({
-  //       x: platform.x,
-  //       y: platform.y,
-  //       width: body.width,
-  //       height: body.height,
-  //       type: isGround ? 'floor' : 'platform',
-  //     });
-  //   });
-
-  //   return objects;
-  // }
-
-  // /**
-  //  * Build the current game state for AI decision making
-  //  */
-  // private getGameState(enemy: Enemy): GameState {
-  //   const playerSprite = this.player.getSprite();
-  //   const enemySprite = enemy.getSprite();
-    
-  //   return {
-  //     // Enemy state
-  //     enemyX: enemy.getX(),
-  //     enemyY: enemy.getY(),
-  //     enemyHeight: enemySprite.displayHeight,
-  //     enemyHealth: enemy.getCurrentHealth(),
-  //     enemyMaxHealth: enemy.getMaxHealth(),
-  //     enemyFacingRight: enemy.isFacingRight(),
-  //     canAttack: enemy.canAttack(),
-  //     canJump: enemy.canJump(),
-      
-  //     // Player state
-  //     playerX: playerSprite.x,
-  //     playerY: playerSprite.y,
-  //     playerHealth: this.player.getCurrentHealth(),
-  //     playerMaxHealth: this.player.getMaxHealth(),
-      
-  //     // Spatial relationship
-  //     distance: Math.abs(enemy.getX() - playerSprite.x),
-      
-  //     // World objects
-  //     collisionObjects: this.getCollisionObjects(),
-  //   };
-  // }
-
-  // /**
-  //  * Update enemy AI - called periodically (not every frame)
-  //  */
-  // private async updateEnemyAI(): Promise<void> {
-  //   // Prevent overlapping AI calls
-  //   if (this.isAIUpdating) {
-  //     return;
-  //   }
-
-  //   const now = this.time.now;
-    
-  //   // Check if enough time has passed since last AI update
-  //   if (now - this.lastAIUpdate < this.aiUpdateInterval) {
-  //     return;
-  //   }
-
-  //   this.lastAIUpdate = now;
-  //   this.isAIUpdating = true;
-
-  //   try {
-  //     // Update AI for each enemy
-  //     for (const enemy of this.enemies) {
-  //       // Skip dead enemies
-  //       if (enemy.isDead()) {
-  //         continue;
-  //       }
-
-  //       const gameState = this.getGameState(enemy);
-  //       const { action, params } = await getEnemyAIAction(gameState);
-
-  //       // Log AI decision
-  //       console.log(`[AI] Decision: ${action}`, params ? `params: ${JSON.stringify(params)}` : '');
-
-  //       // Execute the action
-  //       switch (action) {
-  //         case 'punch':
-  //           enemy.punch();
-  //           break;
-  //         case 'sidekick':
-  //           enemy.sidekick();
-  //           break;
-  //         case 'jump':
-  //           enemy.jump();
-  //           break;
-  //         case 'moveLeft':
-  //           if (params?.pixels) {
-  //             enemy.moveLeftBy(params.pixels);
-  //           } else {
-  //             enemy.startMovingLeft();
-  //           }
-  //           break;
-  //         case 'moveRight':
-  //           if (params?.pixels) {
-  //             enemy.moveRightBy(params.pixels);
-  //           } else {
-  //             enemy.startMovingRight();
-  //           }
-  //           break;
-  //         case 'stopMoving':
-  //           enemy.stopMoving();
-  //           break;
-  //         case 'wait':
-  //           // Do nothing
-  //           break;
-  //       }
-  //     }
-  //   } catch (error) {
-  //     console.error('AI update error:', error);
-  //   } finally {
-  //     this.isAIUpdating = false;
-  //   }
-  // }
-
   /**
    * Clean up resources when scene is shutdown
    * This prevents lingering event listeners from interfering with scene restarts
@@ -689,7 +1074,10 @@ export class GameScene extends Phaser.Scene {
   shutdown(): void {
     console.log('[GameScene] Shutting down...');
     
+    this.events.off(GameEvents.SUPER, this.onSuperStarted, this);
+
     // Destroy UI components with their event listeners
+    this.superMeterBar?.destroy();
     this.pauseMenu?.destroy();
     this.gameOverOverlay?.destroy();
     
@@ -697,12 +1085,28 @@ export class GameScene extends Phaser.Scene {
     this.playerHealthBar?.destroy();
     this.enemyHealthBars.forEach((healthBar) => healthBar.destroy());
     this.enemyHealthBars.clear();
+    this.guardMeters.forEach((guardMeter) => guardMeter.destroy());
+    this.guardMeters = [];
+    this.comboCounters.forEach((comboCounter) => comboCounter.destroy());
+    this.comboCounters.clear();
+    this.combos.clear();
+    this.projectiles.forEach((projectile) => projectile.destroy());
+    this.projectiles = [];
+    this.dustTrackers.clear();
+    this.vfx?.destroy();
+    this.cameraDirector?.destroy();
 
     this.gameplayLogo?.destroy();
+    this.roundPips?.destroy();
+    this.roundTimer?.destroy();
+    this.matchStats?.destroy();
+    this.lastAttacks.clear();
+    this.startPositions.clear();
     
     // Reset arrays to prevent stale references
     this.powerBoosters = [];
     this.enemies = [];
-    this.enemyAIControllers = [];
+    this.enemyControllers.forEach((controller) => controller.destroy());
+    this.enemyControllers = [];
   }
 }
@@ -6,6 +6,7 @@
 
 import Phaser from 'phaser';
 import { GAME_WIDTH, GAME_HEIGHT } from '../config/GameConfig';
+import { VFXManager } from '../systems/VFXManager';
 
 interface MenuButton {
   frame: Phaser.GameObjects.Graphics;
@@ -27,6 +28,7 @@ export class MenuScene extends Phaser.Scene {
   private buttonParticles?: Phaser.GameObjects.Particles.ParticleEmitter;
   private buttonContainer?: Phaser.GameObjects.Graphics;
   private buttonGroup?: Phaser.GameObjects.Container;
+  private vfx!: VFXManager;
 
   // Button styling constants
   private readonly BUTTON_WIDTH = 350;
@@ -54,6 +56,8 @@ export class MenuScene extends Phaser.Scene {
     // Load mute state from registry (persists across scenes)
     this.isMuted = this.registry.get('musicMuted') || false;
 
+    this.vfx = new VFXManager(this);
+
     // Create background with dim overlay
     this.createBackground();
 
@@ -120,24 +124,14 @@ export class MenuScene extends Phaser.Scene {
   }
 
   private createParticles(): void {
-    // Add floating particle effect with glow
-    const particles = this.add.particles(0, 0, 'particle', {
-      x: { min: this.JUAN_FINAL_X - 250, max: this.JUAN_FINAL_X + 250 },
-      y: { min: GAME_HEIGHT / 3, max: GAME_HEIGHT + 50 },
-      speedY: { min: -30, max: -60 },
-      speedX: { min: -10, max: 10 },
-      lifespan: 6000,
-      quantity: 1,
-      frequency: 150,
-      alpha: { start: 0.4, end: 0 }, // Brighter alpha
-      scale: { start: 0.7, end: 0.2 }, // Slightly larger for more presence
-      tint: [0xbbf7d0, 0xbae6fd], // Very light green and very light skyblue
-      blendMode: Phaser.BlendModes.ADD, // Additive blend for glow effect
-    });
-    particles.setDepth(-50);
-
-    // Add glow post-processing effect to the particles
-    particles.postFX?.addGlow(0xffffff, 4, 0, false, 0.5, 16);
+    // Floating glowing motes rising behind Juan
+    const area = new Phaser.Geom.Rectangle(
+      this.JUAN_FINAL_X - 250,
+      GAME_HEIGHT / 3,
+      500,
+      GAME_HEIGHT * 2 / 3 + 50
+    );
+    this.vfx.ambientMotes(area, -50);
   }
 
   private createTitle(): void {
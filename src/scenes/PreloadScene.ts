@@ -19,6 +19,8 @@ import juanGettingPunchedStomachUrl from '../assets/juan/animations/juan_getting
 import juanDodgeUrl from '../assets/juan/animations/juan_dodge_punch_animation.png';
 import juanMatrixDodgeUrl from '../assets/juan/animations/juan_matrix_style_dodge.png';
 import juanKipupUrl from '../assets/juan/animations/juan_kipup_animation.png';
+import juanKickUrl from '../assets/juan/animations/juan_sidekick.png';
+import juanSidekickUrl from '../assets/juan/animations/sidekick_2_animation.png';
 
 // Audio
 import punchSfxUrl from '../assets/audio/punch.mp3';
@@ -51,6 +53,7 @@ import enemyRunningUrl from '../assets/enemy_human/enemy_blockhead_running.png';
 import enemyPunchUrl from '../assets/enemy_human/enemy_blockhead_punch.png';
 import enemySidekickUrl from '../assets/enemy_human/enemy_blockhead_sidekick.png';
 import enemyGettingPunchedUrl from '../assets/enemy_human/enemy_blockhead_getting_punched.png';
+import robotIdleUrl from '../assets/enemy_robot/robot_idle.png';
 
 export class PreloadScene extends Phaser.Scene {
   constructor() {
@@ -122,6 +125,17 @@ export class PreloadScene extends Phaser.Scene {
       frameWidth: 200,
       frameHeight: 400,
     });
+    // kick: 1200x1200, 6 frames on row 1 (stance, stance, knee up, low, mid, high kick)
+    this.load.spritesheet('juan-kick', juanKickUrl, {
+      frameWidth: 200,
+      frameHeight: 400,
+    });
+    // sidekick: 1200x1200, frames 0-3 (200px) + extend (400px) on row 1
+    //           follow (400px) + frames 8-9 (200px) on row 2
+    this.load.spritesheet('juan-sidekick', juanSidekickUrl, {
+      frameWidth: 200,
+      frameHeight: 400,
+    });
 
     // Load audio
     this.load.audio('punch-sfx', punchSfxUrl);
@@ -174,6 +188,9 @@ export class PreloadScene extends Phaser.Scene {
       frameWidth: 200,
       frameHeight: 400,
     });
+
+    // Robot: a single 300x400 pose cut from main_design.png (no sprite sheets yet)
+    this.load.image('robot-idle', robotIdleUrl);
   }
 
   private createLoadingBar(): void {
@@ -236,6 +253,19 @@ export class PreloadScene extends Phaser.Scene {
     particleGfx.generateTexture('particle', 8, 8);
     particleGfx.destroy();
 
+    // Generate energy orb texture for projectiles (glow rings around a hot core)
+    const orbGfx = this.add.graphics();
+    orbGfx.fillStyle(0xff2200, 0.25);
+    orbGfx.fillCircle(16, 16, 16);
+    orbGfx.fillStyle(0xff4400, 0.5);
+    orbGfx.fillCircle(16, 16, 12);
+    orbGfx.fillStyle(0xff8844, 0.9);
+    orbGfx.fillCircle(16, 16, 8);
+    orbGfx.fillStyle(0xffeecc, 1);
+    orbGfx.fillCircle(16, 16, 4);
+    orbGfx.generateTexture('energy-orb', 32, 32);
+    orbGfx.destroy();
+
     // Set LINEAR filter for juan-menu
     this.textures.get('juan-menu').setFilter(Phaser.Textures.FilterMode.LINEAR);
 
@@ -251,6 +281,8 @@ export class PreloadScene extends Phaser.Scene {
     this.textures.get('juan-dodge').setFilter(Phaser.Textures.FilterMode.LINEAR);
     this.textures.get('juan-matrix-dodge').setFilter(Phaser.Textures.FilterMode.LINEAR);
     this.textures.get('juan-kipup').setFilter(Phaser.Textures.FilterMode.LINEAR);
+    this.textures.get('juan-kick').setFilter(Phaser.Textures.FilterMode.LINEAR);
+    this.textures.get('juan-sidekick').setFilter(Phaser.Textures.FilterMode.LINEAR);
 
     // Enemy textures
     this.textures.get('enemy-idle').setFilter(Phaser.Textures.FilterMode.LINEAR);
@@ -258,6 +290,7 @@ export class PreloadScene extends Phaser.Scene {
     this.textures.get('enemy-punch').setFilter(Phaser.Textures.FilterMode.LINEAR);
     this.textures.get('enemy-sidekick').setFilter(Phaser.Textures.FilterMode.LINEAR);
     this.textures.get('enemy-getting-punched').setFilter(Phaser.Textures.FilterMode.LINEAR);
+    this.textures.get('robot-idle').setFilter(Phaser.Textures.FilterMode.LINEAR);
 
     // Add custom wide frame for enemy punch (frames 3+4 combined = 400px wide)
     // Frames 3 and 4 are the same, so combine them into a single wide frame
@@ -282,6 +315,13 @@ export class PreloadScene extends Phaser.Scene {
     matrixDodgeTexture.add('lean_deep', 0, 600, 0, 400, 400);     // frames 4&5: x=800, y=0, width=400
     matrixDodgeTexture.add('crouch_1', 0, 0, 400, 400, 400);      // frames 6&7: x=0, y=400, width=400
 
+    // Add custom wide frames for Juan's sidekick
+    // Layout (1200x1200): Row 1: frames 0-3 (200px each) + extend (400px)
+    //                     Row 2: follow (400px) + frames 8-9 (200px each)
+    const juanSidekickTexture = this.textures.get('juan-sidekick');
+    juanSidekickTexture.add('sidekick_extend', 0, 800, 0, 400, 400);  // slots 4+5: x=800, y=0, width=400
+    juanSidekickTexture.add('sidekick_follow', 0, 0, 400, 400, 400);  // slots 6+7: x=0, y=400, width=400
+
     // Wait for custom fonts to be fully loaded before starting menu
     this.waitForFonts().then(() => {
       this.time.delayedCall(200, () => {
@@ -0,0 +1,205 @@
+/**
+ * Camera Director
+ * ================
+ * Drives the gameplay camera: keeps every fighter in frame (zooming in
+ * while they're close, back out as they separate), shakes on heavy hits,
+ * punches in on super moves and slowly zooms in on a KO.
+ *
+ * HUD objects (scroll factor 0) are drawn by a second, fixed camera so the
+ * zoom never pushes them off-screen. With reduced motion on (registry
+ * 'reducedMotion', toggled from the pause menu) the camera holds still
+ * and never flashes.
+ */
+
+import Phaser from 'phaser';
+import { GAME_WIDTH, GAME_HEIGHT } from '../config/GameConfig.ts';
+
+/** Registry key of the reduced motion setting */
+export const REDUCED_MOTION_KEY = 'reducedMotion';
+
+/** Camera director configuration */
+const CONFIG = {
+  /** Framing: zoom 1 shows the whole stage */
+  MIN_ZOOM: 1,
+  MAX_ZOOM: 1.2,
+  /** Screen width kept around the fighters (pixels) */
+  FRAME_PADDING: 520,
+  /** Frame this far above the fighters' feet */
+  FOCUS_OFFSET_Y: -120,
+  /** Share of the distance to the target covered per frame (at 60fps) */
+  FOLLOW_LERP: 0.08,
+  /** Hits dealing at least this much damage shake the screen */
+  SHAKE_MIN_DAMAGE: 15,
+  SHAKE_DURATION: 160, // ms
+  SHAKE_INTENSITY_PER_DAMAGE: 0.0003,
+  SHAKE_MAX_INTENSITY: 0.012,
+  /** Super move punch-in */
+  SUPER_ZOOM: 1.35,
+  SUPER_LERP: 0.35,
+  SUPER_FLASH_DURATION: 150, // ms
+  /** Slow zoom on the knocked out fighter */
+  KO_ZOOM: 1.5,
+  KO_LERP: 0.02,
+};
+
+export class CameraDirector {
+  private scene: Phaser.Scene;
+  private camera: Phaser.Cameras.Scene2D.Camera;
+  private hudCamera: Phaser.Cameras.Scene2D.Camera;
+  private targets: Phaser.GameObjects.Sprite[];
+
+  // Smoothed framing (tracked here, the camera clamps to the stage bounds)
+  private zoom: number = 1;
+  private centerX: number = GAME_WIDTH / 2;
+  private centerY: number = GAME_HEIGHT / 2;
+
+  // Super punch-in: sprite to punch in on and ms left
+  private punchInTarget: Phaser.GameObjects.Sprite | null = null;
+  private punchInTimer: number = 0;
+
+  // Knocked out fighter the camera settles on
+  private koTarget: Phaser.GameObjects.Sprite | null = null;
+
+  /**
+   * @param targets - Fighter sprites to keep in frame
+   */
+  constructor(scene: Phaser.Scene, targets: Phaser.GameObjects.Sprite[]) {
+    this.scene = scene;
+    this.targets = targets;
+
+    this.camera = scene.cameras.main;
+    this.camera.setBounds(0, 0, GAME_WIDTH, GAME_HEIGHT);
+
+    this.hudCamera = scene.cameras.add(0, 0, GAME_WIDTH, GAME_HEIGHT);
+
+    // Scene transitions fade the gameplay camera - fade the HUD with it
+    this.camera.on(Phaser.Cameras.Scene2D.Events.FADE_OUT_START, this.onFadeOut, this);
+  }
+
+  /**
+   * Update loop - moves the camera toward the current shot
+   * @param delta - Time elapsed since last frame in ms
+   */
+  update(delta: number): void {
+    this.syncHudCamera();
+
+    if (this.punchInTimer > 0) {
+      this.punchInTimer -= delta;
+    }
+
+    if (this.isReducedMotion()) {
+      this.zoom = 1;
+      this.centerX = GAME_WIDTH / 2;
+      this.centerY = GAME_HEIGHT / 2;
+      this.camera.setZoom(1);
+      this.camera.centerOn(this.centerX, this.centerY);
+      return;
+    }
+
+    // KO beats the super punch-in, which beats the two-fighter framing
+    let targetZoom: number;
+    let targetX: number;
+    let targetY: number;
+    let lerp: number;
+    const focus = this.koTarget ?? (this.punchInTimer > 0 ? this.punchInTarget : null);
+    if (focus) {
+      targetZoom = this.koTarget ? CONFIG.KO_ZOOM : CONFIG.SUPER_ZOOM;
+      targetX = focus.x;
+      targetY = focus.y + CONFIG.FOCUS_OFFSET_Y;
+      lerp = this.koTarget ? CONFIG.KO_LERP : CONFIG.SUPER_LERP;
+    } else {
+      const xs = this.targets.map((sprite) => sprite.x);
+      const ys = this.targets.map((sprite) => sprite.y);
+      const spread = Math.max(...xs) - Math.min(...xs);
+      targetZoom = Phaser.Math.Clamp(GAME_WIDTH / (spread + CONFIG.FRAME_PADDING), CONFIG.MIN_ZOOM, CONFIG.MAX_ZOOM);
+      targetX = (Math.max(...xs) + Math.min(...xs)) / 2;
+      targetY = (Math.max(...ys) + Math.min(...ys)) / 2 + CONFIG.FOCUS_OFFSET_Y;
+      lerp = CONFIG.FOLLOW_LERP;
+    }
+
+    // Frame-rate independent smoothing
+    const t = 1 - Math.pow(1 - lerp, delta / (1000 / 60));
+    this.zoom += (targetZoom - this.zoom) * t;
+    this.centerX += (targetX - this.centerX) * t;
+    this.centerY += (targetY - this.centerY) * t;
+
+    this.camera.setZoom(this.zoom);
+    this.camera.centerOn(this.centerX, this.centerY);
+  }
+
+  /**
+   * Shake the screen for a heavy hit
+   * @param damage - Damage dealt (bigger hits shake harder)
+   */
+  onHit(damage: number): void {
+    if (damage < CONFIG.SHAKE_MIN_DAMAGE || this.isReducedMotion()) return;
+
+    const intensity = Math.min(CONFIG.SHAKE_MAX_INTENSITY, damage * CONFIG.SHAKE_INTENSITY_PER_DAMAGE);
+    this.camera.shake(CONFIG.SHAKE_DURATION, intensity);
+  }
+
+  /**
+   * Super move: flash and punch in on the attacker, then ease back out
+   * (no flash with reduced motion on)
+   * @param sprite - Fighter performing the super
+   * @param duration - How long to hold the punch-in (ms)
+   */
+  onSuper(sprite: Phaser.GameObjects.Sprite, duration: number): void {
+    if (!this.isReducedMotion()) {
+      this.camera.flash(CONFIG.SUPER_FLASH_DURATION, 255, 221, 68);
+    }
+    this.punchInTarget = sprite;
+    this.punchInTimer = duration;
+  }
+
+  /**
+   * Knockout: slowly zoom in on the fallen fighter and stay there
+   * @param sprite - Fighter that was knocked out
+   */
+  onKnockout(sprite: Phaser.GameObjects.Sprite): void {
+    this.koTarget = sprite;
+  }
+
+  /** Back to framing the fighters (new round) */
+  resetShot(): void {
+    this.koTarget = null;
+    this.punchInTarget = null;
+    this.punchInTimer = 0;
+  }
+
+  /** Fade the HUD camera out alongside the gameplay camera */
+  private onFadeOut(
+    _camera: Phaser.Cameras.Scene2D.Camera,
+    _effect: Phaser.Cameras.Scene2D.Effects.Fade,
+    duration: number,
+    red: number,
+    green: number,
+    blue: number
+  ): void {
+    this.hudCamera.fadeOut(duration, red, green, blue);
+  }
+
+  /** Check the reduced motion setting */
+  private isReducedMotion(): boolean {
+    return this.scene.registry.get(REDUCED_MOTION_KEY) === true;
+  }
+
+  /**
+   * Route scroll factor 0 objects (HUD, menus) to the fixed HUD camera
+   * and everything else to the gameplay camera
+   * (every frame: HUD code sets the scroll factor after adding its objects)
+   */
+  private syncHudCamera(): void {
+    this.scene.children.list.forEach((child) => {
+      const isHud = 'scrollFactorX' in child && child.scrollFactorX === 0;
+      child.cameraFilter = isHud ? this.camera.id : this.hudCamera.id;
+    });
+  }
+
+  /** Remove the HUD camera and reset the gameplay camera */
+  destroy(): void {
+    this.camera.off(Phaser.Cameras.Scene2D.Events.FADE_OUT_START, this.onFadeOut, this);
+    this.scene.cameras.remove(this.hudCamera);
+    this.camera.setZoom(1);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Command Parser
+ * ===============
+ * Matches declarative command definitions (motions, charges and chains)
+ * against an InputBuffer's history when an attack button is pressed.
+ *
+ * Directions use numpad notation relative to facing:
+ *   7 8 9      4 = back, 6 = forward, 2 = down,
+ *   4 5 6      3 = down-forward, 1 = down-back,
+ *   1 2 3      5 = neutral
+ */
+
+import { CommandButton, InputFrame } from './InputBuffer.ts';
+
+/** Direction in numpad notation (relative to facing) */
+export type NumpadDirection = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+/** A special move or chain, declared per character */
+export interface CommandDefinition<M extends string = string> {
+  /** Move performed when the command matches */
+  move: M;
+  /** Button that completes the command */
+  button: CommandButton;
+  /** Directions entered in order, ending on or before the button press */
+  motion?: NumpadDirection[];
+  /** Direction held for at least `time` ms before the motion (4 also accepts 1/7, 2 accepts 1/3) */
+  charge?: { direction: NumpadDirection; time: number };
+  /** Move this command chains from (must be the last move performed) */
+  after?: M;
+  /**
+   * ms the input must fit in: for motions/charges, from the first direction
+   * (or end of the charge) to the press; for chains, since `after` started
+   */
+  window: number;
+  /** Chains only: ms after `after` started before the chain can trigger */
+  minDelay?: number;
+}
+
+/** Fighter state the parser needs besides the input history */
+export interface CommandContext<M extends string = string> {
+  /** Current scene time (ms) */
+  time: number;
+  facingRight: boolean;
+  /** Last move performed, and when it started */
+  lastMove: M | null;
+  lastMoveTime: number;
+}
+
+/** Convert a raw input entry to numpad notation for the given facing */
+export function toNumpad(frame: InputFrame, facingRight: boolean): NumpadDirection {
+  const forward = facingRight ? frame.x : -frame.x;
+  if (frame.down) {
+    return forward === 1 ? 3 : forward === -1 ? 1 : 2;
+  }
+  return forward === 1 ? 6 : forward === -1 ? 4 : 5;
+}
+
+/** Check if a direction counts toward a charge direction */
+function holdsCharge(direction: NumpadDirection, charge: NumpadDirection): boolean {
+  switch (charge) {
+    case 4: return direction === 1 || direction === 4 || direction === 7;
+    case 6: return direction === 3 || direction === 6 || direction === 9;
+    case 2: return direction === 1 || direction === 2 || direction === 3;
+    default: return direction === charge;
+  }
+}
+
+/**
+ * Find the first command matching a button press
+ * Commands are tried in order, so list specials before chains
+ * @param commands - The character's command list
+ * @param history - Input history (oldest first), including the press
+ * @param button - Button just pressed
+ * @param context - Facing, time and last move
+ * @returns The matching command, or null (perform the button's plain move)
+ */
+export function matchCommand<M extends string>(
+  commands: readonly CommandDefinition<M>[],
+  history: readonly InputFrame[],
+  button: CommandButton,
+  context: CommandContext<M>
+): CommandDefinition<M> | null {
+  return commands.find((command) =>
+    command.button === button && matchesCommand(command, history, context)
+  ) ?? null;
+}
+
+function matchesCommand<M extends string>(
+  command: CommandDefinition<M>,
+  history: readonly InputFrame[],
+  context: CommandContext<M>
+): boolean {
+  // Chain: must follow the given move within its window
+  if (command.after) {
+    if (context.lastMove !== command.after) return false;
+    const elapsed = context.time - context.lastMoveTime;
+    if (elapsed < (command.minDelay ?? 0) || elapsed > command.window) return false;
+  }
+
+  const directions = history.map((frame) => toNumpad(frame, context.facingRight));
+  const earliest = context.time - command.window;
+
+  // Motion: directions as a subsequence of the history, newest last
+  let cursor = history.length - 1;
+  if (command.motion) {
+    let step = command.motion.length - 1;
+    while (step >= 0 && cursor >= 0 && history[cursor].time >= earliest) {
+      if (directions[cursor] === command.motion[step]) {
+        step--;
+      }
+      if (step >= 0) cursor--;
+    }
+    if (step >= 0) return false;
+    cursor--; // Charge must come before the motion
+  }
+
+  // Charge: a run of the direction, released within the window, held long enough
+  if (command.charge) {
+    const charge = command.charge;
+    while (cursor >= 0 && !holdsCharge(directions[cursor], charge.direction)) {
+      cursor--;
+    }
+    if (cursor < 0) return false;
+
+    // The run ends when the next entry leaves the charge direction
+    const runEnd = cursor + 1 < history.length ? history[cursor + 1].time : context.time;
+    if (runEnd < earliest) return false;
+
+    let runStart = cursor;
+    while (runStart > 0 && holdsCharge(directions[runStart - 1], charge.direction)) {
+      runStart--;
+    }
+    if (runEnd - history[runStart].time < charge.time) return false;
+  }
+
+  return true;
+}
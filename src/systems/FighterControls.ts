@@ -0,0 +1,217 @@
+/**
+ * Fighter Controls
+ * =================
+ * The control source a Fighter reads its intents from each frame.
+ * Keyboard, FSM and LLM drivers all plug in behind this interface, so any
+ * character can be driven by any of them.
+ */
+
+import { InputManager } from './InputManager.ts';
+
+/** Per-frame intents a fighter polls from its control source */
+export interface FighterControls {
+  /** Held directions */
+  isMovingLeft(): boolean;
+  isMovingRight(): boolean;
+  isMovingDown(): boolean;
+
+  /** Held guard (blocks incoming attacks while planted) */
+  isGuardPressed(): boolean;
+
+  /** One-shot presses (true once per press) */
+  isJumpPressed(): boolean;
+  isPunchPressed(): boolean;
+  isUppercutPressed(): boolean;
+  isKickPressed(): boolean;
+  isSidekickPressed(): boolean;
+  isDodgePressed(): boolean;
+  isMatrixDodgePressed(): boolean;
+  isCounterDodgePressed(): boolean;
+  isSuperPressed(): boolean;
+  isThrowPressed(): boolean; // Also breaks free while grabbed
+
+  /** Debug-only triggers for hurt animations (optional) */
+  isDebugHurtPressed?(): boolean;
+  isDebugHurtStomachPressed?(): boolean;
+}
+
+/**
+ * Enemy test keys (G/J/Y/H/,/K/N/M) exposed as a control source,
+ * so an enemy can be driven from the keyboard like Juan.
+ */
+export class EnemyKeyboardControls implements FighterControls {
+  private inputManager: InputManager;
+
+  constructor(inputManager: InputManager) {
+    this.inputManager = inputManager;
+  }
+
+  isMovingLeft(): boolean {
+    return this.inputManager.isEnemyMovingLeft();
+  }
+
+  isMovingRight(): boolean {
+    return this.inputManager.isEnemyMovingRight();
+  }
+
+  isMovingDown(): boolean {
+    return this.inputManager.isEnemyCrouchPressed();
+  }
+
+  isGuardPressed(): boolean {
+    return this.inputManager.isEnemyGuardPressed();
+  }
+
+  isJumpPressed(): boolean {
+    return this.inputManager.isEnemyJumpPressed();
+  }
+
+  isPunchPressed(): boolean {
+    return this.inputManager.isEnemyPunchPressed();
+  }
+
+  isUppercutPressed(): boolean {
+    return false;
+  }
+
+  isKickPressed(): boolean {
+    return false;
+  }
+
+  isSidekickPressed(): boolean {
+    return this.inputManager.isEnemySidekickPressed();
+  }
+
+  isDodgePressed(): boolean {
+    return false;
+  }
+
+  isMatrixDodgePressed(): boolean {
+    return false;
+  }
+
+  isCounterDodgePressed(): boolean {
+    return false;
+  }
+
+  isSuperPressed(): boolean {
+    return false;
+  }
+
+  isThrowPressed(): boolean {
+    return this.inputManager.isEnemyThrowPressed();
+  }
+}
+
+/** One-shot actions a script can press */
+export type ScriptedAction =
+  | 'jump'
+  | 'punch'
+  | 'uppercut'
+  | 'kick'
+  | 'sidekick'
+  | 'dodge'
+  | 'matrixDodge'
+  | 'counterDodge'
+  | 'super'
+  | 'throw';
+
+/**
+ * Programmatic control source (for AI or scripted sequences).
+ * Held directions stay active until released; pressed actions are
+ * consumed the first time the fighter reads them.
+ */
+export class ScriptedControls implements FighterControls {
+  private direction: -1 | 0 | 1 = 0;
+  private crouching: boolean = false;
+  private guarding: boolean = false;
+  private pressed: Set<ScriptedAction> = new Set();
+
+  /** Hold a horizontal direction (-1 = left, 0 = none, 1 = right) */
+  hold(direction: -1 | 0 | 1): void {
+    this.direction = direction;
+  }
+
+  /** Hold or release down */
+  setCrouching(crouching: boolean): void {
+    this.crouching = crouching;
+  }
+
+  /** Hold or release guard */
+  setGuarding(guarding: boolean): void {
+    this.guarding = guarding;
+  }
+
+  /** Queue a one-shot action for the next read */
+  press(action: ScriptedAction): void {
+    this.pressed.add(action);
+  }
+
+  /** Release everything */
+  reset(): void {
+    this.direction = 0;
+    this.crouching = false;
+    this.guarding = false;
+    this.pressed.clear();
+  }
+
+  private consume(action: ScriptedAction): boolean {
+    return this.pressed.delete(action);
+  }
+
+  isMovingLeft(): boolean {
+    return this.direction === -1;
+  }
+
+  isMovingRight(): boolean {
+    return this.direction === 1;
+  }
+
+  isMovingDown(): boolean {
+    return this.crouching;
+  }
+
+  isGuardPressed(): boolean {
+    return this.guarding;
+  }
+
+  isJumpPressed(): boolean {
+    return this.consume('jump');
+  }
+
+  isPunchPressed(): boolean {
+    return this.consume('punch');
+  }
+
+  isUppercutPressed(): boolean {
+    return this.consume('uppercut');
+  }
+
+  isKickPressed(): boolean {
+    return this.consume('kick');
+  }
+
+  isSidekickPressed(): boolean {
+    return this.consume('sidekick');
+  }
+
+  isDodgePressed(): boolean {
+    return this.consume('dodge');
+  }
+
+  isMatrixDodgePressed(): boolean {
+    return this.consume('matrixDodge');
+  }
+
+  isCounterDodgePressed(): boolean {
+    return this.consume('counterDodge');
+  }
+
+  isSuperPressed(): boolean {
+    return this.consume('super');
+  }
+
+  isThrowPressed(): boolean {
+    return this.consume('throw');
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Input Buffer
+ * =============
+ * Timestamped history of a fighter's inputs, polled once per frame from
+ * its FighterControls. Directions are stored raw (left/right/down) so the
+ * CommandParser can read them relative to whichever way the fighter faces
+ * when a button is pressed.
+ */
+
+import { FighterControls } from './FighterControls.ts';
+
+/** Attack buttons tracked by the buffer */
+export type CommandButton = 'punch' | 'uppercut' | 'kick' | 'sidekick';
+
+/** One entry of input history (recorded when the stick moves or a button is pressed) */
+export interface InputFrame {
+  /** Scene time of the entry (ms) */
+  time: number;
+  /** Horizontal direction (-1 = left, 0 = none, 1 = right) */
+  x: -1 | 0 | 1;
+  /** Down held */
+  down: boolean;
+  /** Buttons pressed on this frame */
+  buttons: CommandButton[];
+}
+
+/** How long entries are kept (ms) - must cover the longest charge */
+const DEFAULT_MAX_AGE = 1500;
+
+export class InputBuffer {
+  private controls: FighterControls;
+  private maxAge: number;
+  private history: InputFrame[] = [];
+  private pressed: CommandButton[] = [];
+
+  constructor(controls: FighterControls, maxAge: number = DEFAULT_MAX_AGE) {
+    this.controls = controls;
+    this.maxAge = maxAge;
+  }
+
+  /**
+   * Poll the control source - call exactly once per frame
+   * (this consumes the one-shot attack presses)
+   * @param time - Current scene time (ms)
+   */
+  update(time: number): void {
+    let x: -1 | 0 | 1 = 0;
+    if (this.controls.isMovingLeft()) x = -1;
+    else if (this.controls.isMovingRight()) x = 1;
+    const down = this.controls.isMovingDown();
+
+    // Read every button so none stays latched for a later frame
+    const buttons: CommandButton[] = [];
+    if (this.controls.isPunchPressed()) buttons.push('punch');
+    if (this.controls.isUppercutPressed()) buttons.push('uppercut');
+    if (this.controls.isKickPressed()) buttons.push('kick');
+    if (this.controls.isSidekickPressed()) buttons.push('sidekick');
+    this.pressed = buttons;
+
+    const last = this.history[this.history.length - 1];
+    if (!last || last.x !== x || last.down !== down || buttons.length > 0) {
+      this.history.push({ time, x, down, buttons });
+    }
+
+    // Drop old entries, but keep the newest so held directions stay known
+    while (this.history.length > 1 && time - this.history[0].time > this.maxAge) {
+      this.history.shift();
+    }
+  }
+
+  /** Buttons pressed this frame */
+  getPressed(): readonly CommandButton[] {
+    return this.pressed;
+  }
+
+  /** Input history, oldest first */
+  getHistory(): readonly InputFrame[] {
+    return this.history;
+  }
+
+  /** Forget everything (e.g. between rounds) */
+  clear(): void {
+    this.history = [];
+    this.pressed = [];
+  }
+}
@@ -5,8 +5,10 @@
  */
 
 import Phaser from 'phaser';
+import { FighterControls } from './FighterControls.ts';
 
-export class InputManager {
+/** Keyboard input - also the player's FighterControls source */
+export class InputManager implements FighterControls {
   private scene: Phaser.Scene;
   private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
   private wasd!: {
@@ -26,14 +28,19 @@ export class InputManager {
   private dodgeKey!: Phaser.Input.Keyboard.Key;       // I - dodge
   private matrixDodgeKey!: Phaser.Input.Keyboard.Key; // L - matrix dodge
   private counterDodgeKey!: Phaser.Input.Keyboard.Key; // U - counter-dodge (during enemy warning)
+  private guardKey!: Phaser.Input.Keyboard.Key;        // B - guard (hold)
+  private superKey!: Phaser.Input.Keyboard.Key;        // F - super move (full meter)
+  private throwKey!: Phaser.Input.Keyboard.Key;        // T - throw (also breaks free when grabbed)
 
   // Enemy control keys
   private enemyJumpKey!: Phaser.Input.Keyboard.Key;   // Y - enemy jump
   private enemyLeftKey!: Phaser.Input.Keyboard.Key;   // G - enemy run left
   private enemyRightKey!: Phaser.Input.Keyboard.Key;  // J - enemy run right
   private enemyCrouchKey!: Phaser.Input.Keyboard.Key; // H - enemy crouch
-  private enemyPunchKey!: Phaser.Input.Keyboard.Key;   // U - enemy punch
+  private enemyPunchKey!: Phaser.Input.Keyboard.Key;   // , - enemy punch
   private enemySidekickKey!: Phaser.Input.Keyboard.Key; // K - enemy sidekick
+  private enemyGuardKey!: Phaser.Input.Keyboard.Key;    // N - enemy guard
+  private enemyThrowKey!: Phaser.Input.Keyboard.Key;    // M - enemy throw
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -62,14 +69,19 @@ export class InputManager {
     this.dodgeKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.I);     // I - dodge
     this.matrixDodgeKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.L); // L - matrix dodge
     this.counterDodgeKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.U); // U - counter-dodge
+    this.guardKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.B);     // B - guard
+    this.superKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F);     // F - super move
+    this.throwKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.T);     // T - throw / throw tech
 
     // Enemy controls
     this.enemyJumpKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.Y);   // Y - enemy jump
     this.enemyLeftKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.G);   // G - enemy run left
     this.enemyRightKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.J);  // J - enemy run right
     this.enemyCrouchKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.H); // H - enemy crouch
-    this.enemyPunchKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.U);   // U - enemy punch
+    this.enemyPunchKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.COMMA); // , - enemy punch (U is the player's counter-dodge)
     this.enemySidekickKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.K); // K - enemy sidekick
+    this.enemyGuardKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.N);    // N - enemy guard
+    this.enemyThrowKey = keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.M);    // M - enemy throw
   }
 
   isMovingLeft(): boolean {
@@ -147,6 +159,21 @@ export class InputManager {
     return Phaser.Input.Keyboard.JustDown(this.counterDodgeKey);
   }
 
+  // F key - super move (needs a full super meter)
+  isSuperPressed(): boolean {
+    return Phaser.Input.Keyboard.JustDown(this.superKey);
+  }
+
+  // T key - throw (also breaks free when grabbed)
+  isThrowPressed(): boolean {
+    return Phaser.Input.Keyboard.JustDown(this.throwKey);
+  }
+
+  // B key - guard (hold)
+  isGuardPressed(): boolean {
+    return this.guardKey?.isDown || false;
+  }
+
   getHorizontalAxis(): number {
     let axis = 0;
     if (this.isMovingLeft()) axis -= 1;
@@ -178,4 +205,12 @@ export class InputManager {
   isEnemySidekickPressed(): boolean {
     return Phaser.Input.Keyboard.JustDown(this.enemySidekickKey);
   }
+
+  isEnemyGuardPressed(): boolean {
+    return this.enemyGuardKey?.isDown || false;
+  }
+
+  isEnemyThrowPressed(): boolean {
+    return Phaser.Input.Keyboard.JustDown(this.enemyThrowKey);
+  }
 }
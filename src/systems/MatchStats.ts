@@ -0,0 +1,144 @@
+/**
+ * Match Stats
+ * ============
+ * Collects per-fighter statistics for the results screen by listening to
+ * the scene's combat events (GameEvents.HIT, WHIFF, PARRY, COUNTER_DODGE,
+ * POWER_BOOSTER_COLLECTED) - nothing in the fight calls into it directly.
+ * The finished report can be exported as JSON.
+ */
+
+import Phaser from 'phaser';
+import { Fighter, HitEvent, WhiffEvent } from '../entities/Fighter.ts';
+import { CounterDodgeEvent } from '../entities/Player.ts';
+import { PowerBoosterEvent } from '../entities/PowerBooster.ts';
+import { ParryEvent } from '../combat/Parry.ts';
+import { MatchFinish, MatchWinner } from '../ui/GameOverOverlay.ts';
+import { GameEvents } from '../types/index.ts';
+
+/** One fighter's numbers for the match */
+export interface FighterStats {
+  name: string;
+  damageDealt: number;
+  hitsLanded: number;
+  /** Hits the opponent blocked */
+  hitsBlocked: number;
+  /** Attacks that ended without connecting */
+  whiffs: number;
+  maxCombo: number;
+  counterDodges: number;
+  parries: number;
+  powerBoosters: number;
+}
+
+/** Everything the results screen shows */
+export interface MatchReport {
+  winner: MatchWinner;
+  finish: MatchFinish;
+  rounds: number;
+  /** ms of fighting (countdowns, pauses and breaks between rounds don't count) */
+  duration: number;
+  fighters: FighterStats[];
+}
+
+export class MatchStats {
+  private scene: Phaser.Scene;
+  private stats: Map<Fighter, FighterStats> = new Map();
+  private duration: number = 0;
+
+  /**
+   * @param fighters - Fighters to track with their display names
+   */
+  constructor(scene: Phaser.Scene, fighters: { fighter: Fighter; name: string }[]) {
+    this.scene = scene;
+
+    fighters.forEach(({ fighter, name }) => {
+      this.stats.set(fighter, {
+        name,
+        damageDealt: 0,
+        hitsLanded: 0,
+        hitsBlocked: 0,
+        whiffs: 0,
+        maxCombo: 0,
+        counterDodges: 0,
+        parries: 0,
+        powerBoosters: 0,
+      });
+    });
+
+    scene.events.on(GameEvents.HIT, this.onHit, this);
+    scene.events.on(GameEvents.WHIFF, this.onWhiff, this);
+    scene.events.on(GameEvents.PARRY, this.onParry, this);
+    scene.events.on(GameEvents.COUNTER_DODGE, this.onCounterDodge, this);
+    scene.events.on(GameEvents.POWER_BOOSTER_COLLECTED, this.onPowerBooster, this);
+  }
+
+  private onHit(event: HitEvent): void {
+    const stats = this.stats.get(event.attacker);
+    if (!stats) return;
+
+    stats.damageDealt += event.damage;
+    if (event.blocked) {
+      stats.hitsBlocked++;
+    } else {
+      stats.hitsLanded++;
+      stats.maxCombo = Math.max(stats.maxCombo, event.comboHits);
+    }
+  }
+
+  private onWhiff(event: WhiffEvent): void {
+    const stats = this.stats.get(event.attacker);
+    if (stats) stats.whiffs++;
+  }
+
+  private onParry(event: ParryEvent): void {
+    const stats = this.stats.get(event.fighter);
+    if (stats) stats.parries++;
+  }
+
+  private onCounterDodge(event: CounterDodgeEvent): void {
+    const stats = this.stats.get(event.fighter);
+    if (stats) stats.counterDodges++;
+  }
+
+  private onPowerBooster(event: PowerBoosterEvent): void {
+    const stats = this.stats.get(event.fighter);
+    if (stats) stats.powerBoosters++;
+  }
+
+  /**
+   * Count time the match is running (the round clock is ticking)
+   * @param delta - Time elapsed since last frame in ms
+   */
+  addPlayTime(delta: number): void {
+    this.duration += delta;
+  }
+
+  /**
+   * Build the report for the decided match
+   * @param rounds - Rounds played
+   */
+  getReport(winner: MatchWinner, finish: MatchFinish, rounds: number): MatchReport {
+    return {
+      winner,
+      finish,
+      rounds,
+      duration: Math.round(this.duration),
+      fighters: Array.from(this.stats.values()).map((stats) => ({ ...stats })),
+    };
+  }
+
+  /** Serialize a report for export */
+  static toJSON(report: MatchReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /** Stop listening to combat events */
+  destroy(): void {
+    this.scene.events.off(GameEvents.HIT, this.onHit, this);
+    this.scene.events.off(GameEvents.WHIFF, this.onWhiff, this);
+    this.scene.events.off(GameEvents.PARRY, this.onParry, this);
+    this.scene.events.off(GameEvents.COUNTER_DODGE, this.onCounterDodge, this);
+    this.scene.events.off(GameEvents.POWER_BOOSTER_COLLECTED, this.onPowerBooster, this);
+    this.stats.clear();
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * VFX Manager
+ * ============
+ * One place for the scene's particle effects: impact sparks, block
+ * flashes, dust clouds and one-off bursts. Each effect has one emitter
+ * that explodes its bursts at the effect's position, so a busy fight reuses
+ * the same few game objects instead of creating a new emitter per hit.
+ *
+ * The emitters themselves never move or scale - Phaser draws live
+ * particles through their emitter's transform, so that would drag the
+ * previous burst along. Bigger effects get bigger, faster particles instead.
+ */
+
+import Phaser from 'phaser';
+import { ImpactEffect } from '../combat/MoveData.ts';
+
+/** Effects with a shared emitter */
+type EffectKey = ImpactEffect | 'block' | 'dust' | 'booster';
+
+/** Emitter setup for one effect */
+interface EffectConfig {
+  texture: string;
+  /** Particles at scale 1 */
+  quantity: number;
+  /** Particle speed at scale 1 */
+  speed: { min: number; max: number };
+  /** Particle size over its lifespan at scale 1 */
+  size: { start: number; end: number };
+  /** Everything else about the particles */
+  emitter: Phaser.Types.GameObjects.Particles.ParticleEmitterConfig;
+  /** Core flash color, if the effect has one */
+  flashColor?: number;
+}
+
+/** VFX configuration */
+const CONFIG = {
+  /** Pooled core flash images */
+  FLASH_POOL_SIZE: 12,
+  /** Damage at which hit effects play at scale 1 */
+  REFERENCE_DAMAGE: 12,
+  /** Scale range for hit effects */
+  MIN_SCALE: 0.7,
+  MAX_SCALE: 1.8,
+  /** In front of the fighters */
+  DEPTH: 20,
+  /** Core flash */
+  FLASH_SCALE: 0.9,
+  FLASH_DURATION: 120, // ms
+};
+
+/** Generated textures */
+const FLASH_TEXTURE = 'vfx-flash';
+const PARTICLE_TEXTURE = 'particle'; // Generated in PreloadScene
+
+const EFFECTS: Record<EffectKey, EffectConfig> = {
+  // Light strikes - white-gold sparks
+  spark: {
+    texture: PARTICLE_TEXTURE,
+    quantity: 8,
+    speed: { min: 120, max: 320 },
+    size: { start: 0.9, end: 0 },
+    emitter: {
+      angle: { min: 0, max: 360 },
+      lifespan: 250,
+      tint: [0xffffff, 0xffee88, 0xffcc33],
+      blendMode: Phaser.BlendModes.ADD,
+    },
+    flashColor: 0xffffcc,
+  },
+  // Launchers and heavy kicks - bigger, hotter burst
+  heavy: {
+    texture: PARTICLE_TEXTURE,
+    quantity: 14,
+    speed: { min: 180, max: 420 },
+    size: { start: 1.3, end: 0 },
+    emitter: {
+      angle: { min: 0, max: 360 },
+      lifespan: 350,
+      tint: [0xffffff, 0xffaa33, 0xff6622],
+      blendMode: Phaser.BlendModes.ADD,
+    },
+    flashColor: 0xffaa33,
+  },
+  // Projectiles - slower red embers
+  energy: {
+    texture: PARTICLE_TEXTURE,
+    quantity: 12,
+    speed: { min: 80, max: 260 },
+    size: { start: 1.1, end: 0 },
+    emitter: {
+      angle: { min: 0, max: 360 },
+      lifespan: 400,
+      tint: [0xffeecc, 0xff5522, 0xff2200],
+      blendMode: Phaser.BlendModes.ADD,
+    },
+    flashColor: 0xff5522,
+  },
+  // Blocked hits - a few guard-blue chips
+  block: {
+    texture: PARTICLE_TEXTURE,
+    quantity: 6,
+    speed: { min: 60, max: 160 },
+    size: { start: 0.7, end: 0 },
+    emitter: {
+      angle: { min: 0, max: 360 },
+      lifespan: 200,
+      tint: [0xffffff, 0x99ddff, 0x66ccff],
+      blendMode: Phaser.BlendModes.ADD,
+    },
+    flashColor: 0x66ccff,
+  },
+  // Landings and knockback skids - puffs that drift up and fade
+  dust: {
+    texture: PARTICLE_TEXTURE,
+    quantity: 6,
+    speed: { min: 30, max: 110 },
+    size: { start: 1.2, end: 2.6 },
+    emitter: {
+      angle: { min: 200, max: 340 }, // Upward fan
+      alpha: { start: 0.5, end: 0 },
+      lifespan: 500,
+      gravityY: -40,
+      tint: [0xb8a98c, 0x9c8f78, 0xd6ccb6],
+    },
+  },
+  // Power booster pickup
+  booster: {
+    texture: 'power-booster',
+    quantity: 8,
+    speed: { min: 50, max: 150 },
+    size: { start: 0.05, end: 0 },
+    emitter: {
+      angle: { min: 0, max: 360 },
+      lifespan: 500,
+      blendMode: Phaser.BlendModes.ADD,
+    },
+  },
+};
+
+export class VFXManager {
+  private scene: Phaser.Scene;
+  private emitters: Map<EffectKey, Phaser.GameObjects.Particles.ParticleEmitter> = new Map();
+  private flashes: Phaser.GameObjects.Group;
+  private ambientEmitters: Phaser.GameObjects.Particles.ParticleEmitter[] = [];
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.createTextures();
+
+    this.flashes = scene.add.group({
+      classType: Phaser.GameObjects.Image,
+      maxSize: CONFIG.FLASH_POOL_SIZE,
+    });
+  }
+
+  /** Soft round flash used as the core of hit effects */
+  private createTextures(): void {
+    if (this.scene.textures.exists(FLASH_TEXTURE)) return;
+
+    const flashGfx = this.scene.add.graphics();
+    flashGfx.fillStyle(0xffffff, 0.25);
+    flashGfx.fillCircle(32, 32, 32);
+    flashGfx.fillStyle(0xffffff, 0.5);
+    flashGfx.fillCircle(32, 32, 22);
+    flashGfx.fillStyle(0xffffff, 1);
+    flashGfx.fillCircle(32, 32, 12);
+    flashGfx.generateTexture(FLASH_TEXTURE, 64, 64);
+    flashGfx.destroy();
+  }
+
+  /**
+   * Sparks where a hit landed
+   * @param effect - Effect picked by the move (MoveData.impact)
+   * @param damage - Damage dealt (bigger hits, bigger sparks)
+   */
+  impact(effect: ImpactEffect, x: number, y: number, damage: number): void {
+    this.play(effect, x, y, this.getDamageScale(damage));
+  }
+
+  /**
+   * Guard flash where a hit was blocked
+   * @param damage - Damage of the blocked move
+   */
+  blockFlash(x: number, y: number, damage: number): void {
+    this.play('block', x, y, this.getDamageScale(damage));
+  }
+
+  /**
+   * Dust cloud at a fighter's feet
+   * @param intensity - Scale of the cloud (1 = a hard landing)
+   */
+  dust(x: number, y: number, intensity: number = 1): void {
+    this.play('dust', x, y, intensity);
+  }
+
+  /** Burst of power booster shards when one is collected */
+  boosterBurst(x: number, y: number): void {
+    this.play('booster', x, y, 1);
+  }
+
+  /**
+   * Slow glowing motes rising through an area (menu backdrop)
+   * Runs until the scene ends or the manager is destroyed
+   */
+  ambientMotes(area: Phaser.Geom.Rectangle, depth: number): Phaser.GameObjects.Particles.ParticleEmitter {
+    const emitter = this.scene.add.particles(0, 0, PARTICLE_TEXTURE, {
+      x: { min: area.left, max: area.right },
+      y: { min: area.top, max: area.bottom },
+      speedY: { min: -30, max: -60 },
+      speedX: { min: -10, max: 10 },
+      lifespan: 6000,
+      quantity: 1,
+      frequency: 150,
+      alpha: { start: 0.4, end: 0 },
+      scale: { start: 0.7, end: 0.2 },
+      tint: [0xbbf7d0, 0xbae6fd], // Very light green and very light skyblue
+      blendMode: Phaser.BlendModes.ADD, // Additive blend for glow effect
+    });
+    emitter.setDepth(depth);
+    emitter.postFX?.addGlow(0xffffff, 4, 0, false, 0.5, 16);
+
+    this.ambientEmitters.push(emitter);
+    return emitter;
+  }
+
+  /** Effect scale for a hit's damage */
+  private getDamageScale(damage: number): number {
+    return Phaser.Math.Clamp(damage / CONFIG.REFERENCE_DAMAGE, CONFIG.MIN_SCALE, CONFIG.MAX_SCALE);
+  }
+
+  /**
+   * Play an effect: its emitter explodes a burst at the position, with
+   * particle count, size and speed scaled (the emitter itself stays put)
+   */
+  private play(key: EffectKey, x: number, y: number, scale: number): void {
+    const effect = EFFECTS[key];
+    if (!this.scene.textures.exists(effect.texture)) return;
+
+    // Only particles emitted from now on pick up the new size and speed
+    const emitter = this.getEmitter(key);
+    emitter.updateConfig(this.getScaledParticles(effect, scale));
+    emitter.explode(Math.max(1, Math.round(effect.quantity * scale)), x, y);
+
+    if (effect.flashColor !== undefined) {
+      this.flash(x, y, effect.flashColor, scale);
+    }
+  }
+
+  /** Particle size and speed of an effect at a scale */
+  private getScaledParticles(effect: EffectConfig, scale: number): Phaser.Types.GameObjects.Particles.ParticleEmitterConfig {
+    return {
+      speed: { min: effect.speed.min * scale, max: effect.speed.max * scale },
+      scale: { start: effect.size.start * scale, end: effect.size.end * scale },
+    };
+  }
+
+  /** Get an effect's emitter, creating it on first use */
+  private getEmitter(key: EffectKey): Phaser.GameObjects.Particles.ParticleEmitter {
+    let emitter = this.emitters.get(key);
+    if (!emitter) {
+      const effect = EFFECTS[key];
+      emitter = this.scene.add.particles(0, 0, effect.texture, {
+        ...effect.emitter,
+        ...this.getScaledParticles(effect, 1),
+        emitting: false,
+      });
+      emitter.setDepth(CONFIG.DEPTH);
+      this.emitters.set(key, emitter);
+    }
+    return emitter;
+  }
+
+  /** Quick tinted flash at the core of a hit (skipped if the pool is exhausted) */
+  private flash(x: number, y: number, color: number, scale: number): void {
+    const flash = this.flashes.get(x, y, FLASH_TEXTURE) as Phaser.GameObjects.Image | null;
+    if (!flash) return;
+
+    flash.setActive(true).setVisible(true);
+    flash.setDepth(CONFIG.DEPTH);
+    flash.setTint(color);
+    flash.setBlendMode(Phaser.BlendModes.ADD);
+    flash.setAlpha(1);
+    flash.setScale(CONFIG.FLASH_SCALE * scale * 0.5);
+
+    this.scene.tweens.add({
+      targets: flash,
+      scale: CONFIG.FLASH_SCALE * scale,
+      alpha: 0,
+      duration: CONFIG.FLASH_DURATION,
+      ease: 'Power2',
+      onComplete: () => this.flashes.killAndHide(flash),
+    });
+  }
+
+  /** Destroy every effect emitter, flash and ambient emitter */
+  destroy(): void {
+    this.emitters.forEach((emitter) => emitter.destroy());
+    this.emitters.clear();
+    this.ambientEmitters.forEach((emitter) => emitter.destroy());
+    this.ambientEmitters = [];
+    this.flashes.destroy(true);
+  }
+}
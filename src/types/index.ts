@@ -75,6 +75,12 @@ export const GameEvents = {
   LEVEL_COMPLETE: 'level-complete',
   CHECKPOINT_REACHED: 'checkpoint-reached',
   ENEMY_DEFEATED: 'enemy-defeated',
+  PARRY: 'parry',
+  SUPER: 'super',
+  HIT: 'hit',
+  WHIFF: 'whiff',
+  COUNTER_DODGE: 'counter-dodge',
+  POWER_BOOSTER_COLLECTED: 'power-booster-collected',
 } as const;
 
 /** Scene identifiers */
@@ -0,0 +1,130 @@
+/**
+ * Combo Counter UI
+ * =================
+ * Floating hit counter that pops above a character's HealthBar while they
+ * land a combo (2+ hits). Shows the hit count and total damage, then fades
+ * out once the combo drops.
+ */
+
+import Phaser from 'phaser';
+
+/** Combo counter configuration */
+const CONFIG = {
+  /** Hits before the counter shows */
+  MIN_HITS: 2,
+  /** Height above the HealthBar */
+  OFFSET_ABOVE_HEALTH_BAR: 34,
+  /** HealthBar layout this counter sits over */
+  HEALTH_BAR_PADDING_ABOVE_HEAD: 20,
+  /** Colors */
+  HITS_COLOR: '#ffdd44',
+  DAMAGE_COLOR: '#ffffff',
+  STROKE_COLOR: '#000000',
+  /** ms the final count stays up after the combo drops */
+  LINGER_DURATION: 700,
+  FADE_DURATION: 300,
+};
+
+export class ComboCounter {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private hitsText: Phaser.GameObjects.Text;
+  private damageText: Phaser.GameObjects.Text;
+
+  private targetSprite: Phaser.Physics.Arcade.Sprite;
+  private headOffset: number;
+  private fadeTween: Phaser.Tweens.Tween | null = null;
+
+  constructor(scene: Phaser.Scene, targetSprite: Phaser.Physics.Arcade.Sprite, headOffset: number = 0) {
+    this.scene = scene;
+    this.targetSprite = targetSprite;
+    this.headOffset = headOffset;
+
+    this.container = scene.add.container(0, 0);
+    this.container.setDepth(1001); // Above the HealthBar
+    this.container.setVisible(false);
+
+    this.hitsText = scene.add.text(0, 0, '', {
+      fontFamily: 'Quantico, Russo One, Arial',
+      fontSize: '26px',
+      fontStyle: 'bold',
+      color: CONFIG.HITS_COLOR,
+      stroke: CONFIG.STROKE_COLOR,
+      strokeThickness: 5,
+    });
+    this.hitsText.setOrigin(0.5, 1);
+    this.container.add(this.hitsText);
+
+    this.damageText = scene.add.text(0, 2, '', {
+      fontFamily: 'monospace',
+      fontSize: '12px',
+      fontStyle: 'bold',
+      color: CONFIG.DAMAGE_COLOR,
+      stroke: CONFIG.STROKE_COLOR,
+      strokeThickness: 3,
+    });
+    this.damageText.setOrigin(0.5, 0);
+    this.container.add(this.damageText);
+
+    // Update loop to follow character
+    scene.events.on('update', this.update, this);
+  }
+
+  /**
+   * Show the current combo (pops on every new hit)
+   */
+  updateCombo(hits: number, damage: number): void {
+    if (hits < CONFIG.MIN_HITS) return;
+
+    this.fadeTween?.stop();
+    this.fadeTween = null;
+    this.container.setVisible(true);
+    this.container.setAlpha(1);
+
+    this.hitsText.setText(`${hits} HITS`);
+    this.damageText.setText(`${damage} DMG`);
+
+    this.scene.tweens.add({
+      targets: this.hitsText,
+      scale: { from: 1.4, to: 1 },
+      duration: 150,
+      ease: 'Back.easeOut',
+    });
+  }
+
+  /**
+   * The combo dropped - keep the final count up briefly, then fade out
+   */
+  endCombo(): void {
+    if (!this.container.visible || this.fadeTween) return;
+
+    this.fadeTween = this.scene.tweens.add({
+      targets: this.container,
+      alpha: 0,
+      delay: CONFIG.LINGER_DURATION,
+      duration: CONFIG.FADE_DURATION,
+      onComplete: () => {
+        this.container.setVisible(false);
+        this.fadeTween = null;
+      },
+    });
+  }
+
+  /**
+   * Update loop - follows character above the HealthBar
+   */
+  private update(_time: number, _delta: number): void {
+    if (!this.container.visible) return;
+
+    const topOfFrame = this.targetSprite.y - this.targetSprite.displayHeight;
+    const healthBarY = topOfFrame + this.headOffset - CONFIG.HEALTH_BAR_PADDING_ABOVE_HEAD;
+    this.container.setPosition(this.targetSprite.x, healthBarY - CONFIG.OFFSET_ABOVE_HEALTH_BAR);
+  }
+
+  /** Destroy the combo counter */
+  destroy(): void {
+    this.scene.events.off('update', this.update, this);
+    this.fadeTween?.stop();
+    this.container.destroy();
+  }
+}
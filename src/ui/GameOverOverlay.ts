@@ -1,13 +1,15 @@
 /**
  * Game Over Overlay UI
  * ====================
- * Overlay shown when a character's health reaches zero.
- * Shows "YOU WIN" or "YOU LOSE" with restart/quit options.
+ * Overlay shown when the match is decided, by KO or when time runs out.
+ * Shows "VICTORY", "DEFEAT" or "DRAW", the fight statistics of each
+ * fighter (exportable as JSON) and restart/quit options.
  * Tech-noir style matching the pause menu design.
  */
 
 import Phaser from 'phaser';
 import { GAME_WIDTH, GAME_HEIGHT } from '../config/GameConfig';
+import { FighterStats, MatchReport, MatchStats } from '../systems/MatchStats';
 
 /** Game over overlay configuration - Tech-noir style matching pause menu */
 const CONFIG = {
@@ -15,8 +17,8 @@ const CONFIG = {
   OVERLAY_COLOR: 0x000000,
   OVERLAY_ALPHA: 0.6,
   /** Panel styling */
-  PANEL_WIDTH: 480,
-  PANEL_HEIGHT: 350,
+  PANEL_WIDTH: 600,
+  PANEL_HEIGHT: 660,
   PANEL_COLOR: 0x1e293b,
   PANEL_BORDER_COLOR: 0x64748b,
   PANEL_BORDER_WIDTH: 2,
@@ -30,10 +32,55 @@ const CONFIG = {
   BUTTON_TEXT_COLOR: '#ffffff',
   BUTTON_SELECTED_TEXT_COLOR: '#fc4513',
   BUTTON_SPACING: 25,
+  /** Stats table */
+  STATS_Y: -175,
+  STATS_ROW_HEIGHT: 22,
+  STATS_LABEL_X: -240,
+  /** Fighter columns share the panel between these x positions */
+  STATS_COLUMNS_LEFT: 10,
+  STATS_COLUMNS_RIGHT: 250,
+  STATS_COLUMN_PADDING: 6, // Names shrink to fit their column, minus this
   /** Font */
   FONT_FAMILY: 'Quantico',
 };
 
+/** Who took the match */
+export type MatchWinner = 'player' | 'enemy' | 'draw';
+
+/** How the deciding round ended: knockout or time over */
+export type MatchFinish = 'ko' | 'time';
+
+/** Title, title color and subtitle per outcome */
+const OUTCOME_TEXT: Record<MatchWinner, { title: string; color: string; subtitle: Record<MatchFinish, string> }> = {
+  player: {
+    title: 'VICTORY',
+    color: '#fc4513',
+    subtitle: { ko: 'Enemy defeated!', time: 'TIME - won on health' },
+  },
+  enemy: {
+    title: 'DEFEAT',
+    color: '#f87171',
+    subtitle: { ko: 'Better luck next time', time: 'TIME - lost on health' },
+  },
+  draw: {
+    title: 'DRAW',
+    color: '#94a3b8',
+    subtitle: { ko: 'Double knockout', time: 'TIME - dead even' },
+  },
+};
+
+/** Rows of the stats table */
+const STAT_ROWS: { label: string; key: keyof Omit<FighterStats, 'name'> }[] = [
+  { label: 'Damage dealt', key: 'damageDealt' },
+  { label: 'Hits landed', key: 'hitsLanded' },
+  { label: 'Hits blocked', key: 'hitsBlocked' },
+  { label: 'Whiffed attacks', key: 'whiffs' },
+  { label: 'Max combo', key: 'maxCombo' },
+  { label: 'Counter-dodges', key: 'counterDodges' },
+  { label: 'Parries', key: 'parries' },
+  { label: 'Power boosters', key: 'powerBoosters' },
+];
+
 /** Button data structure */
 interface MenuButton {
   bg: Phaser.GameObjects.Graphics;
@@ -52,6 +99,10 @@ export class GameOverOverlay {
   private titleText: Phaser.GameObjects.Text | null = null;
   private subtitleText: Phaser.GameObjects.Text | null = null;
 
+  // Results of the decided match (stats table recreated on show)
+  private report: MatchReport | null = null;
+  private statsTexts: Phaser.GameObjects.Text[] = [];
+
   // Keyboard navigation
   private buttons: MenuButton[] = [];
   private selectedIndex: number = 0;
@@ -154,13 +205,16 @@ export class GameOverOverlay {
   }
 
   private createButtons(): void {
-    const buttonY = 10;
+    const buttonY = 80;
 
     // Restart button
     this.createButton(0, buttonY, 'RESTART', () => this.restart());
 
+    // Export stats button
+    this.createButton(0, buttonY + CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING, 'EXPORT STATS', () => this.exportStats());
+
     // Quit button
-    this.createButton(0, buttonY + CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING, 'QUIT TO MENU', () => this.quit());
+    this.createButton(0, buttonY + (CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING) * 2, 'QUIT TO MENU', () => this.quit());
 
     // Navigation hint
     const hint = this.scene.add.text(0, CONFIG.PANEL_HEIGHT / 2 - 30, '↑↓ Navigate  •  ENTER Select', {
@@ -367,8 +421,13 @@ export class GameOverOverlay {
     });
   }
 
-  /** Show the game over overlay */
-  show(winner: 'player' | 'enemy'): void {
+  /**
+   * Show the game over overlay
+   * @param winner - Who took the match
+   * @param finish - How the deciding round ended (default KO)
+   * @param report - Fight statistics for the results table
+   */
+  show(winner: MatchWinner, finish: MatchFinish = 'ko', report: MatchReport | null = null): void {
     if (this.isVisible) return;
     this.isVisible = true;
 
@@ -396,14 +455,13 @@ export class GameOverOverlay {
       this.subtitleText = null;
     }
 
-    // Create title text based on winner
-    const titleContent = winner === 'player' ? 'VICTORY' : 'DEFEAT';
-    const titleColor = winner === 'player' ? '#fc4513' : '#f87171';
+    // Create title text based on the outcome
+    const outcome = OUTCOME_TEXT[winner];
 
-    this.titleText = this.scene.add.text(0, -CONFIG.PANEL_HEIGHT / 2 + 60, titleContent, {
+    this.titleText = this.scene.add.text(0, -CONFIG.PANEL_HEIGHT / 2 + 60, outcome.title, {
       fontFamily: CONFIG.FONT_FAMILY,
       fontSize: '48px',
-      color: titleColor,
+      color: outcome.color,
       stroke: '#000000',
       strokeThickness: 4,
     });
@@ -411,8 +469,7 @@ export class GameOverOverlay {
     this.container.add(this.titleText);
 
     // Subtitle
-    const subtitleContent = winner === 'player' ? 'Enemy defeated!' : 'Better luck next time';
-    this.subtitleText = this.scene.add.text(0, -CONFIG.PANEL_HEIGHT / 2 + 110, subtitleContent, {
+    this.subtitleText = this.scene.add.text(0, -CONFIG.PANEL_HEIGHT / 2 + 110, outcome.subtitle[finish], {
       fontFamily: CONFIG.FONT_FAMILY,
       fontSize: '18px',
       color: '#94a3b8',
@@ -420,6 +477,9 @@ export class GameOverOverlay {
     this.subtitleText.setOrigin(0.5);
     this.container.add(this.subtitleText);
 
+    this.report = report;
+    this.createStatsTable();
+
     // Show elements
     this.overlay.setVisible(true);
     this.container.setVisible(true);
@@ -471,6 +531,66 @@ export class GameOverOverlay {
     });
   }
 
+  /** Per-fighter stats table plus rounds and duration */
+  private createStatsTable(): void {
+    this.statsTexts.forEach((text) => text.destroy());
+    this.statsTexts = [];
+    if (!this.report) return;
+
+    const addText = (x: number, y: number, content: string, color: string, originX: number): Phaser.GameObjects.Text => {
+      const text = this.scene.add.text(x, y, content, {
+        fontFamily: CONFIG.FONT_FAMILY,
+        fontSize: '16px',
+        color,
+      });
+      text.setOrigin(originX, 0.5);
+      this.container.add(text);
+      this.statsTexts.push(text);
+      return text;
+    };
+
+    // Header: one column per fighter, spread evenly however many there are
+    const fighters = this.report.fighters;
+    const columnWidth = (CONFIG.STATS_COLUMNS_RIGHT - CONFIG.STATS_COLUMNS_LEFT) / fighters.length;
+    const columnX = (column: number) => CONFIG.STATS_COLUMNS_LEFT + columnWidth * (column + 0.5);
+    fighters.forEach((fighter, column) => {
+      const name = addText(columnX(column), CONFIG.STATS_Y, fighter.name.toUpperCase(), '#fc4513', 0.5);
+      const maxWidth = columnWidth - CONFIG.STATS_COLUMN_PADDING;
+      if (name.width > maxWidth) {
+        name.setScale(maxWidth / name.width);
+      }
+    });
+
+    STAT_ROWS.forEach((row, index) => {
+      const y = CONFIG.STATS_Y + CONFIG.STATS_ROW_HEIGHT * (index + 1);
+      addText(CONFIG.STATS_LABEL_X, y, row.label, '#94a3b8', 0);
+      fighters.forEach((fighter, column) => {
+        addText(columnX(column), y, String(Math.round(fighter[row.key])), '#ffffff', 0.5);
+      });
+    });
+
+    // Match summary
+    const seconds = Math.floor(this.report.duration / 1000);
+    const duration = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    const rounds = this.report.rounds === 1 ? '1 round' : `${this.report.rounds} rounds`;
+    const summaryY = CONFIG.STATS_Y + CONFIG.STATS_ROW_HEIGHT * (STAT_ROWS.length + 1) + 6;
+    addText(0, summaryY, `${rounds}  •  ${duration}`, '#64748b', 0.5);
+  }
+
+  /** Download the match report as a JSON file */
+  private exportStats(): void {
+    if (!this.report) return;
+
+    const json = MatchStats.toJSON(this.report);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `match-results-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log('[GameOverOverlay] Exported match stats');
+  }
+
   /** Restart the game */
   private restart(): void {
     this.isVisible = false;
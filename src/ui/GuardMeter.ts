@@ -0,0 +1,139 @@
+/**
+ * Guard Meter UI
+ * ===============
+ * A thin floating bar under a character's HealthBar showing how much
+ * guard they have left. Flashes when the guard breaks.
+ */
+
+import Phaser from 'phaser';
+
+/** Guard meter configuration */
+const CONFIG = {
+  /** Bar dimensions (same width as the HealthBar) */
+  WIDTH: 120,
+  HEIGHT: 6,
+  /** Gap below the HealthBar */
+  GAP: 3,
+  /** HealthBar layout this meter sits under */
+  HEALTH_BAR_HEIGHT: 16,
+  HEALTH_BAR_PADDING_ABOVE_HEAD: 20,
+  /** Colors */
+  BG_COLOR: 0x1a1a2e,
+  FILL_COLOR: 0x44aaff,
+  LOW_COLOR: 0xffaa44,
+  BROKEN_COLOR: 0x888899,
+  BORDER_COLOR: 0x4a4a6a,
+  /** Guard ratio considered low */
+  LOW_THRESHOLD: 0.3,
+  /** Corner radius */
+  BORDER_RADIUS: 3,
+};
+
+export class GuardMeter {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private background: Phaser.GameObjects.Graphics;
+  private fillBar: Phaser.GameObjects.Graphics;
+  private border: Phaser.GameObjects.Graphics;
+
+  private targetSprite: Phaser.Physics.Arcade.Sprite;
+  private currentProgress: number = 1;
+  private targetProgress: number = 1;
+  private maxGuard: number;
+  private headOffset: number;
+  private breakTween: Phaser.Tweens.Tween | null = null;
+
+  constructor(
+    scene: Phaser.Scene,
+    targetSprite: Phaser.Physics.Arcade.Sprite,
+    maxGuard: number,
+    headOffset: number = 0
+  ) {
+    this.scene = scene;
+    this.targetSprite = targetSprite;
+    this.maxGuard = maxGuard;
+    this.headOffset = headOffset;
+
+    // Create container for all bar elements
+    this.container = scene.add.container(0, 0);
+    this.container.setDepth(1000); // Same layer as the HealthBar
+
+    this.background = scene.add.graphics();
+    this.background.fillStyle(CONFIG.BG_COLOR, 0.9);
+    this.background.fillRoundedRect(0, 0, CONFIG.WIDTH, CONFIG.HEIGHT, CONFIG.BORDER_RADIUS);
+    this.container.add(this.background);
+
+    this.fillBar = scene.add.graphics();
+    this.container.add(this.fillBar);
+
+    this.border = scene.add.graphics();
+    this.border.lineStyle(1, CONFIG.BORDER_COLOR, 1);
+    this.border.strokeRoundedRect(0, 0, CONFIG.WIDTH, CONFIG.HEIGHT, CONFIG.BORDER_RADIUS);
+    this.container.add(this.border);
+
+    // Update loop to follow character
+    scene.events.on('update', this.update, this);
+  }
+
+  private drawFill(progress: number): void {
+    this.fillBar.clear();
+
+    if (progress <= 0) return;
+
+    let color = CONFIG.FILL_COLOR;
+    if (this.targetProgress <= 0) {
+      color = CONFIG.BROKEN_COLOR;
+    } else if (this.targetProgress <= CONFIG.LOW_THRESHOLD) {
+      color = CONFIG.LOW_COLOR;
+    }
+
+    this.fillBar.fillStyle(color, 1);
+    this.fillBar.fillRoundedRect(1, 1, (CONFIG.WIDTH - 2) * progress, CONFIG.HEIGHT - 2, CONFIG.BORDER_RADIUS - 1);
+  }
+
+  /**
+   * Update guard value
+   */
+  updateGuard(newGuard: number): void {
+    this.targetProgress = Math.max(0, Math.min(newGuard, this.maxGuard)) / this.maxGuard;
+  }
+
+  /**
+   * Flash the meter when the guard breaks
+   */
+  showBreak(): void {
+    this.breakTween?.stop();
+    this.container.setAlpha(1);
+    this.breakTween = this.scene.tweens.add({
+      targets: this.container,
+      alpha: { from: 0.2, to: 1 },
+      duration: 100,
+      repeat: 4,
+      yoyo: true,
+      onComplete: () => this.container.setAlpha(1),
+    });
+  }
+
+  /**
+   * Update loop - follows character just under the HealthBar
+   */
+  private update(_time: number, _delta: number): void {
+    const topOfFrame = this.targetSprite.y - this.targetSprite.displayHeight;
+    const healthBarY = topOfFrame + this.headOffset - CONFIG.HEALTH_BAR_PADDING_ABOVE_HEAD;
+    this.container.setPosition(
+      this.targetSprite.x - CONFIG.WIDTH / 2,
+      healthBarY + CONFIG.HEALTH_BAR_HEIGHT + CONFIG.GAP
+    );
+
+    // Smooth progress update
+    this.currentProgress += (this.targetProgress - this.currentProgress) * 0.2;
+    this.drawFill(this.currentProgress);
+  }
+
+  /** Destroy the guard meter */
+  destroy(): void {
+    this.scene.events.off('update', this.update, this);
+    this.breakTween?.stop();
+    this.container.destroy();
+  }
+}
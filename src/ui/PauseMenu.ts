@@ -2,12 +2,13 @@
  * Pause Menu UI
  * =============
  * Overlay menu that appears when the game is paused.
- * Provides options to Resume, Restart, or Quit to main menu.
+ * Provides options to Resume, Restart, toggle reduced motion, or Quit to main menu.
  * Supports both mouse and keyboard navigation.
  */
 
 import Phaser from 'phaser';
 import { GAME_WIDTH, GAME_HEIGHT } from '../config/GameConfig';
+import { REDUCED_MOTION_KEY } from '../systems/CameraDirector';
 
 /** Pause menu configuration - Tech-noir style matching main menu */
 const CONFIG = {
@@ -16,7 +17,7 @@ const CONFIG = {
   OVERLAY_ALPHA: 0.6,
   /** Panel styling */
   PANEL_WIDTH: 420,
-  PANEL_HEIGHT: 420,
+  PANEL_HEIGHT: 500,
   PANEL_COLOR: 0x1e293b,
   PANEL_BORDER_COLOR: 0x64748b,
   PANEL_BORDER_WIDTH: 2,
@@ -167,7 +168,7 @@ export class PauseMenu {
   }
 
   private createButtons(): void {
-    const buttonY = -50;
+    const buttonY = -90;
     
     // Resume button
     this.createButton(0, buttonY, 'RESUME', () => this.hide());
@@ -175,8 +176,15 @@ export class PauseMenu {
     // Restart button
     this.createButton(0, buttonY + CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING, 'RESTART', () => this.restart());
     
+    // Reduced motion toggle (camera shake, zoom and tracking)
+    const motionIndex = this.buttons.length;
+    this.createButton(0, buttonY + (CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING) * 2, this.getMotionLabel(), () => {
+      this.scene.registry.set(REDUCED_MOTION_KEY, !this.scene.registry.get(REDUCED_MOTION_KEY));
+      this.buttons[motionIndex].text.setText(this.getMotionLabel());
+    });
+
     // Quit button
-    this.createButton(0, buttonY + (CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING) * 2, 'QUIT TO MENU', () => this.quit());
+    this.createButton(0, buttonY + (CONFIG.BUTTON_HEIGHT + CONFIG.BUTTON_SPACING) * 3, 'QUIT TO MENU', () => this.quit());
 
     // Navigation hint
     const hint = this.scene.add.text(0, CONFIG.PANEL_HEIGHT / 2 - 30, '↑↓ Navigate  •  ENTER Select  •  ESC Resume', {
@@ -188,6 +196,11 @@ export class PauseMenu {
     this.container.add(hint);
   }
 
+  /** Label of the reduced motion toggle */
+  private getMotionLabel(): string {
+    return this.scene.registry.get(REDUCED_MOTION_KEY) ? 'MOTION: REDUCED' : 'MOTION: FULL';
+  }
+
   private createButton(x: number, y: number, text: string, callback: () => void): void {
     const index = this.buttons.length;
     
@@ -0,0 +1,99 @@
+/**
+ * Round Pips UI
+ * ==============
+ * HUD row (top-center, either side of the logo) with one pip per round
+ * a fighter needs to take the match. Won rounds light up.
+ */
+
+import Phaser from 'phaser';
+import { GAME_WIDTH } from '../config/GameConfig';
+
+/** Round pips configuration */
+const CONFIG = {
+  /** Distance of each row's inner pip from the screen center */
+  OFFSET_X: 220,
+  Y: 40,
+  /** Pip size and spacing */
+  RADIUS: 9,
+  SPACING: 26,
+  /** Colors */
+  BG_COLOR: 0x1a1a2e,
+  BORDER_COLOR: 0x4a4a6a,
+  WON_COLOR: 0xffdd44,
+  GLOW_COLOR: 0xffdd44,
+};
+
+export class RoundPips {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private graphics: Phaser.GameObjects.Graphics;
+  private winsNeeded: number;
+  private playerWins: number = 0;
+  private enemyWins: number = 0;
+
+  /**
+   * @param winsNeeded - Rounds a fighter has to win to take the match
+   */
+  constructor(scene: Phaser.Scene, winsNeeded: number) {
+    this.scene = scene;
+    this.winsNeeded = winsNeeded;
+
+    this.container = scene.add.container(GAME_WIDTH / 2, CONFIG.Y);
+    this.container.setScrollFactor(0); // Fixed to camera
+    this.container.setDepth(1000);
+
+    this.graphics = scene.add.graphics();
+    this.container.add(this.graphics);
+
+    this.draw();
+  }
+
+  /**
+   * Update the rounds won by each side
+   */
+  setWins(playerWins: number, enemyWins: number): void {
+    const newWin = playerWins > this.playerWins || enemyWins > this.enemyWins;
+    this.playerWins = playerWins;
+    this.enemyWins = enemyWins;
+    this.draw();
+
+    // Pop the row when a pip lights up
+    if (newWin) {
+      this.scene.tweens.add({
+        targets: this.container,
+        scale: { from: 1.3, to: 1 },
+        duration: 300,
+        ease: 'Back.easeOut',
+      });
+    }
+  }
+
+  private draw(): void {
+    this.graphics.clear();
+
+    for (let i = 0; i < this.winsNeeded; i++) {
+      const offset = CONFIG.OFFSET_X + i * CONFIG.SPACING;
+      // Player pips fill outward to the left, enemy pips to the right
+      this.drawPip(-offset, i < this.playerWins);
+      this.drawPip(offset, i < this.enemyWins);
+    }
+  }
+
+  private drawPip(x: number, won: boolean): void {
+    if (won) {
+      this.graphics.fillStyle(CONFIG.GLOW_COLOR, 0.25);
+      this.graphics.fillCircle(x, 0, CONFIG.RADIUS + 4);
+    }
+
+    this.graphics.fillStyle(won ? CONFIG.WON_COLOR : CONFIG.BG_COLOR, 0.9);
+    this.graphics.fillCircle(x, 0, CONFIG.RADIUS);
+
+    this.graphics.lineStyle(2, CONFIG.BORDER_COLOR, 1);
+    this.graphics.strokeCircle(x, 0, CONFIG.RADIUS);
+  }
+
+  /** Destroy the pips */
+  destroy(): void {
+    this.container.destroy();
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Round Timer UI
+ * ===============
+ * HUD clock (top-center, under the logo) counting down the round's
+ * remaining seconds. Turns red and ticks with a pop for the last few.
+ */
+
+import Phaser from 'phaser';
+import { GAME_WIDTH } from '../config/GameConfig';
+
+/** Round timer configuration */
+const CONFIG = {
+  Y: 128,
+  FONT_SIZE: '40px',
+  COLOR: '#ffffff',
+  /** Seconds left when the clock turns red */
+  WARNING_TIME: 10,
+  WARNING_COLOR: '#ff4444',
+};
+
+export class RoundTimer {
+  private scene: Phaser.Scene;
+  private text: Phaser.GameObjects.Text;
+  private seconds: number = -1;
+
+  /**
+   * @param seconds - Time shown at the start of the round
+   */
+  constructor(scene: Phaser.Scene, seconds: number) {
+    this.scene = scene;
+
+    this.text = scene.add.text(GAME_WIDTH / 2, CONFIG.Y, '', {
+      fontFamily: 'Quantico, Russo One, Arial',
+      fontSize: CONFIG.FONT_SIZE,
+      fontStyle: 'bold',
+      color: CONFIG.COLOR,
+      stroke: '#000000',
+      strokeThickness: 6,
+    });
+    this.text.setOrigin(0.5, 0.5);
+    this.text.setScrollFactor(0); // Fixed to camera
+    this.text.setDepth(1000);
+
+    this.setTime(seconds);
+  }
+
+  /**
+   * Show the remaining time
+   * @param seconds - Seconds left (rounded up)
+   */
+  setTime(seconds: number): void {
+    const shown = Math.max(0, Math.ceil(seconds));
+    if (shown === this.seconds) return;
+    this.seconds = shown;
+
+    this.text.setText(String(shown));
+    const warning = shown <= CONFIG.WARNING_TIME;
+    this.text.setColor(warning ? CONFIG.WARNING_COLOR : CONFIG.COLOR);
+
+    // Tick the last seconds away
+    if (warning && shown > 0) {
+      this.scene.tweens.add({
+        targets: this.text,
+        scale: { from: 1.3, to: 1 },
+        duration: 250,
+        ease: 'Back.easeOut',
+      });
+    }
+  }
+
+  /** Destroy the timer */
+  destroy(): void {
+    this.text.destroy();
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Super Meter Bar UI
+ * ===================
+ * HUD bar (top-right, under the BoosterBar) showing the player's super
+ * meter. Pulses with a "READY" label once the meter is full.
+ */
+
+import Phaser from 'phaser';
+
+/** Super meter bar configuration */
+const CONFIG = {
+  /** Bar dimensions (same as the BoosterBar) */
+  WIDTH: 200,
+  HEIGHT: 14,
+  /** Position from top-right corner (BoosterBar sits at MARGIN_Y 40, height 20) */
+  MARGIN_X: 40,
+  MARGIN_Y: 84,
+  /** Colors */
+  BG_COLOR: 0x1a1a2e,
+  FILL_COLOR: 0xcc8800,
+  READY_COLOR: 0xffdd44,
+  BORDER_COLOR: 0x4a4a6a,
+  GLOW_COLOR: 0xffdd44,
+  /** Animation */
+  PULSE_SPEED: 400,
+  /** Corner radius */
+  BORDER_RADIUS: 7,
+};
+
+export class SuperMeterBar {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private background: Phaser.GameObjects.Graphics;
+  private fillBar: Phaser.GameObjects.Graphics;
+  private border: Phaser.GameObjects.Graphics;
+  private glowEffect: Phaser.GameObjects.Graphics;
+  private label: Phaser.GameObjects.Text;
+  private readyText: Phaser.GameObjects.Text;
+
+  private maxMeter: number;
+  private currentProgress: number = 0;
+  private targetProgress: number = 0;
+  private pulseTween: Phaser.Tweens.Tween | null = null;
+
+  constructor(scene: Phaser.Scene, maxMeter: number) {
+    this.scene = scene;
+    this.maxMeter = maxMeter;
+
+    // Create container for all bar elements (positioned top-right, under the BoosterBar)
+    const x = scene.cameras.main.width - CONFIG.WIDTH - CONFIG.MARGIN_X - 40;
+    const y = CONFIG.MARGIN_Y;
+    this.container = scene.add.container(x, y);
+    this.container.setScrollFactor(0); // Fixed to camera
+    this.container.setDepth(1000);
+
+    // Glow shown while the meter is full (behind everything)
+    this.glowEffect = scene.add.graphics();
+    this.glowEffect.fillStyle(CONFIG.GLOW_COLOR, 0.25);
+    this.glowEffect.fillRoundedRect(-4, -4, CONFIG.WIDTH + 8, CONFIG.HEIGHT + 8, CONFIG.BORDER_RADIUS + 2);
+    this.glowEffect.setVisible(false);
+    this.container.add(this.glowEffect);
+
+    this.background = scene.add.graphics();
+    this.background.fillStyle(CONFIG.BG_COLOR, 0.9);
+    this.background.fillRoundedRect(0, 0, CONFIG.WIDTH, CONFIG.HEIGHT, CONFIG.BORDER_RADIUS);
+    this.container.add(this.background);
+
+    this.fillBar = scene.add.graphics();
+    this.container.add(this.fillBar);
+
+    this.border = scene.add.graphics();
+    this.border.lineStyle(2, CONFIG.BORDER_COLOR, 1);
+    this.border.strokeRoundedRect(0, 0, CONFIG.WIDTH, CONFIG.HEIGHT, CONFIG.BORDER_RADIUS);
+    this.container.add(this.border);
+
+    // Label to the left of the bar
+    this.label = scene.add.text(-10, CONFIG.HEIGHT / 2, 'SUPER', {
+      fontFamily: 'monospace',
+      fontSize: '10px',
+      color: '#ffdd44',
+      fontStyle: 'bold',
+    });
+    this.label.setOrigin(1, 0.5);
+    this.container.add(this.label);
+
+    // Shown on the bar once full
+    this.readyText = scene.add.text(CONFIG.WIDTH / 2, CONFIG.HEIGHT / 2, 'READY [F]', {
+      fontFamily: 'monospace',
+      fontSize: '10px',
+      color: '#1a1a2e',
+      fontStyle: 'bold',
+    });
+    this.readyText.setOrigin(0.5, 0.5);
+    this.readyText.setVisible(false);
+    this.container.add(this.readyText);
+
+    // Update loop
+    scene.events.on('update', this.update, this);
+  }
+
+  private drawFill(progress: number): void {
+    this.fillBar.clear();
+
+    if (progress <= 0) return;
+
+    const fillWidth = Math.max(0, (CONFIG.WIDTH - 4) * progress);
+    const color = this.targetProgress >= 1 ? CONFIG.READY_COLOR : CONFIG.FILL_COLOR;
+
+    this.fillBar.fillStyle(color, 1);
+    this.fillBar.fillRoundedRect(2, 2, fillWidth, CONFIG.HEIGHT - 4, CONFIG.BORDER_RADIUS - 2);
+
+    // Add shine effect on top
+    this.fillBar.fillStyle(0xffffff, 0.3);
+    this.fillBar.fillRoundedRect(
+      2,
+      2,
+      fillWidth,
+      (CONFIG.HEIGHT - 4) / 3,
+      { tl: CONFIG.BORDER_RADIUS - 2, tr: CONFIG.BORDER_RADIUS - 2, bl: 0, br: 0 }
+    );
+  }
+
+  /**
+   * Update meter value
+   */
+  updateMeter(meter: number): void {
+    const wasFull = this.targetProgress >= 1;
+    this.targetProgress = Phaser.Math.Clamp(meter / this.maxMeter, 0, 1);
+
+    const isFull = this.targetProgress >= 1;
+    if (isFull && !wasFull) {
+      this.startPulseAnimation();
+    } else if (!isFull && wasFull) {
+      this.stopPulseAnimation();
+    }
+  }
+
+  private startPulseAnimation(): void {
+    this.glowEffect.setVisible(true);
+    this.readyText.setVisible(true);
+
+    this.pulseTween = this.scene.tweens.add({
+      targets: this.glowEffect,
+      alpha: { from: 0.4, to: 1 },
+      duration: CONFIG.PULSE_SPEED,
+      ease: 'Sine.easeInOut',
+      yoyo: true,
+      repeat: -1,
+    });
+
+    // Pop-in effect for the label
+    this.scene.tweens.add({
+      targets: this.label,
+      scale: { from: 1.6, to: 1 },
+      duration: 300,
+      ease: 'Back.easeOut',
+    });
+  }
+
+  private stopPulseAnimation(): void {
+    this.pulseTween?.stop();
+    this.pulseTween = null;
+    this.glowEffect.setVisible(false);
+    this.readyText.setVisible(false);
+  }
+
+  private update(_time: number, _delta: number): void {
+    // Smooth progress update (spending the meter drains it quickly)
+    this.currentProgress += (this.targetProgress - this.currentProgress) * 0.2;
+    this.drawFill(this.currentProgress);
+  }
+
+  /** Destroy the bar */
+  destroy(): void {
+    this.scene.events.off('update', this.update, this);
+    this.pulseTween?.stop();
+    this.container.destroy();
+  }
+}